@@ -0,0 +1,104 @@
+import { CompleteParams, Completion } from './types.js';
+import { PromptRegistry } from './prompts/registry.js';
+import { TRANSCRIPT_FORMATS } from './resources/templates.js';
+import { ValidationError } from './utils/errors.js';
+
+/**
+ * Most values a single `completion/complete` response may carry
+ */
+export const MAX_COMPLETION_VALUES = 100;
+
+/**
+ * Arguments whose name mentions a model are completed with model names
+ */
+const MODEL_ARGUMENT = /model/i;
+
+export interface CompletionSources {
+  prompts: PromptRegistry;
+  models(): string[];
+  conversations(sessionId: string): string[];
+}
+
+/**
+ * Answers `completion/complete` for prompt arguments and resource template variables
+ */
+export class CompletionProvider {
+  private resourceTemplates: Record<string, Record<string, (sessionId: string) => string[]>>;
+
+  constructor(private sources: CompletionSources) {
+    this.resourceTemplates = {
+      'gemini://models/{name}': { name: () => sources.models() },
+      'gemini://conversations/{id}{?format}': {
+        id: sessionId => sources.conversations(sessionId),
+        format: () => [...TRANSCRIPT_FORMATS]
+      }
+    };
+  }
+
+  complete(params: unknown, sessionId: string): Completion {
+    const { ref, argument } = this.validate(params);
+
+    const candidates =
+      ref.type === 'ref/prompt'
+        ? this.promptCandidates(ref.name, argument.name)
+        : this.resourceCandidates(ref.uri, argument.name, sessionId);
+
+    return filterCompletions(candidates, argument.value);
+  }
+
+  private promptCandidates(promptName: string, argumentName: string): string[] {
+    const argument = this.sources.prompts.getArgument(promptName, argumentName);
+    if (!argument) {
+      return [];
+    }
+    const choices = argument.values ?? argument.suggestions;
+    if (choices) {
+      return choices;
+    }
+    return MODEL_ARGUMENT.test(argumentName) ? this.sources.models() : [];
+  }
+
+  private resourceCandidates(uri: string, argumentName: string, sessionId: string): string[] {
+    const variables = this.resourceTemplates[uri];
+    if (!variables) {
+      throw new ValidationError(`Unknown resource template: ${uri}`);
+    }
+    return variables[argumentName]?.(sessionId) ?? [];
+  }
+
+  private validate(params: unknown): CompleteParams {
+    const { ref, argument } = (params ?? {}) as Partial<CompleteParams>;
+
+    if (!ref || (ref.type !== 'ref/prompt' && ref.type !== 'ref/resource')) {
+      throw new ValidationError('Invalid ref: expected type ref/prompt or ref/resource');
+    }
+    if (ref.type === 'ref/prompt' && typeof ref.name !== 'string') {
+      throw new ValidationError('Missing required parameter: ref.name');
+    }
+    if (ref.type === 'ref/resource' && typeof ref.uri !== 'string') {
+      throw new ValidationError('Missing required parameter: ref.uri');
+    }
+    if (!argument || typeof argument.name !== 'string' || typeof argument.value !== 'string') {
+      throw new ValidationError('Invalid argument: expected { name, value } strings');
+    }
+
+    return { ref, argument };
+  }
+}
+
+/**
+ * Keep the candidates starting with the typed value (case-insensitive), capped
+ * at MAX_COMPLETION_VALUES with `total` and `hasMore` describing the rest
+ */
+export function filterCompletions(candidates: string[], value: string): Completion {
+  const prefix = value.toLowerCase();
+  const matches = [...new Set(candidates)].filter(candidate =>
+    candidate.toLowerCase().startsWith(prefix)
+  );
+
+  return {
+    values: matches.slice(0, MAX_COMPLETION_VALUES),
+    total: matches.length,
+    hasMore: matches.length > MAX_COMPLETION_VALUES
+  };
+}
@@ -1,4 +1,6 @@
 import 'dotenv/config';
+import { homedir } from 'os';
+import { join } from 'path';
 import { z } from 'zod';
 
 // Configuration schema validation
@@ -10,13 +12,66 @@ const ConfigSchema = z.object({
   logLevel: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
   enableMetrics: z.boolean().default(false),
 
-  // Rate Limiting
+  // Transport
+  transport: z.enum(['stdio', 'http', 'sse']).default('stdio'),
+  httpPort: z.number().int().min(0).max(65535).default(3005),
+  httpHost: z.string().default('127.0.0.1'),
+  httpAllowedOrigins: z.array(z.string()).default([]),
+  httpSessionTimeout: z.number().int().min(0).default(1800000), // 30 minutes idle
+
+  // Prompt library
+  promptsDir: z.string().optional(),
+
+  // Plugins (npm package names or paths to .js files, plus a directory watched at runtime)
+  plugins: z.array(z.string()).default([]),
+  pluginsDir: z.string().optional(),
+
+  // Model catalogue (API listing cached on disk; a TTL of 0 disables the cache)
+  modelCacheFile: z.string().default(join(homedir(), '.cache', 'mcp-server-gemini', 'models.json')),
+  modelCacheTtl: z.number().int().min(0).default(86400000), // 24 hours
+
+  // Model aliases (alias -> model) and the models `auto` routes between, cheapest first
+  modelAliases: z
+    .record(z.string().min(1))
+    .refine(aliases => !('auto' in aliases), '"auto" is reserved for routing')
+    .default({}),
+  modelRoutingCandidates: z.array(z.string()).min(1).optional(),
+
+  // Circuit breaker per model, and the fallback chain for generate_text and analyze_image
+  circuitFailureThreshold: z.number().int().min(1).default(5),
+  circuitResetTimeout: z.number().int().min(0).default(30000),
+  circuitHalfOpenMaxCalls: z.number().int().min(1).default(1),
+  modelFallbackChain: z.array(z.string()).optional(),
+
+  // Gemini calls in flight per model (default, and per-model overrides), and the
+  // calls that may wait for a slot per model
+  maxConcurrentRequests: z.number().int().min(1).default(4),
+  modelConcurrency: z.record(z.number().int().min(1)).default({}), // model -> calls
+  maxQueueSize: z.number().int().min(0).default(100),
+
+  // Rate Limiting: tool calls per session and tool, and Gemini quotas per model
   rateLimitEnabled: z.boolean().default(true),
   rateLimitRequests: z.number().default(100),
   rateLimitWindow: z.number().default(60000), // 1 minute
+  rateLimitMode: z.enum(['reject', 'wait']).default('reject'),
+  modelQuotas: z
+    .record(
+      z.object({
+        rpm: z.number().int().min(1).optional(),
+        tpm: z.number().int().min(1).optional(),
+        rpd: z.number().int().min(1).optional()
+      })
+    )
+    .default({}),
 
   // Timeouts
   requestTimeout: z.number().default(30000), // 30 seconds
+  toolTimeouts: z.record(z.number().int().min(0)).default({}), // tool name -> ms
+
+  // Retries of failed Gemini calls (budget: total ms per tool call, including waits)
+  retryMaxAttempts: z.number().int().min(1).default(3),
+  retryBaseDelay: z.number().int().min(0).default(1000),
+  retryBudget: z.number().int().min(0).default(20000),
 
   // Development
   isDevelopment: z.boolean().default(false)
@@ -24,6 +79,28 @@ const ConfigSchema = z.object({
 
 export type Config = z.infer<typeof ConfigSchema>;
 
+/**
+ * Per-model quotas from MODEL_RPM, MODEL_TPM and MODEL_RPD, each a list of
+ * `model=limit` pairs
+ */
+function parseModelQuotas(): Record<string, Record<string, number>> | undefined {
+  const quotas: Record<string, Record<string, number>> = {};
+  for (const [name, variable] of Object.entries({
+    rpm: 'MODEL_RPM',
+    tpm: 'MODEL_TPM',
+    rpd: 'MODEL_RPD'
+  })) {
+    (process.env[variable] ?? '')
+      .split(',')
+      .map(entry => entry.split('=').map(part => part.trim()))
+      .filter(([model, limit]) => model && limit)
+      .forEach(([model, limit]) => {
+        quotas[model] = { ...quotas[model], [name]: parseInt(limit, 10) };
+      });
+  }
+  return Object.keys(quotas).length > 0 ? quotas : undefined;
+}
+
 /**
  * Load and validate configuration from environment variables
  */
@@ -32,6 +109,68 @@ export function loadConfig(): Config {
     geminiApiKey: process.env.GEMINI_API_KEY,
     logLevel: process.env.LOG_LEVEL,
     enableMetrics: process.env.ENABLE_METRICS === 'true',
+    transport: process.env.MCP_TRANSPORT,
+    httpPort: process.env.HTTP_PORT ? parseInt(process.env.HTTP_PORT, 10) : undefined,
+    httpHost: process.env.HTTP_HOST,
+    httpSessionTimeout: process.env.HTTP_SESSION_TIMEOUT
+      ? parseInt(process.env.HTTP_SESSION_TIMEOUT, 10)
+      : undefined,
+    httpAllowedOrigins: process.env.HTTP_ALLOWED_ORIGINS
+      ? process.env.HTTP_ALLOWED_ORIGINS.split(',')
+          .map(origin => origin.trim())
+          .filter(Boolean)
+      : undefined,
+    promptsDir: process.env.PROMPTS_DIR || undefined,
+    plugins: process.env.PLUGINS
+      ? process.env.PLUGINS.split(',')
+          .map(plugin => plugin.trim())
+          .filter(Boolean)
+      : undefined,
+    pluginsDir: process.env.PLUGINS_DIR || undefined,
+    modelCacheFile: process.env.MODEL_CACHE_FILE || undefined,
+    modelCacheTtl: process.env.MODEL_CACHE_TTL
+      ? parseInt(process.env.MODEL_CACHE_TTL, 10)
+      : undefined,
+    modelAliases: process.env.MODEL_ALIASES
+      ? Object.fromEntries(
+          process.env.MODEL_ALIASES.split(',')
+            .map(entry => entry.split('=').map(part => part.trim()))
+            .filter(([alias, model]) => alias && model)
+        )
+      : undefined,
+    modelRoutingCandidates: process.env.MODEL_ROUTING_CANDIDATES
+      ? process.env.MODEL_ROUTING_CANDIDATES.split(',')
+          .map(model => model.trim())
+          .filter(Boolean)
+      : undefined,
+    circuitFailureThreshold: process.env.CIRCUIT_FAILURE_THRESHOLD
+      ? parseInt(process.env.CIRCUIT_FAILURE_THRESHOLD, 10)
+      : undefined,
+    circuitResetTimeout: process.env.CIRCUIT_RESET_TIMEOUT
+      ? parseInt(process.env.CIRCUIT_RESET_TIMEOUT, 10)
+      : undefined,
+    circuitHalfOpenMaxCalls: process.env.CIRCUIT_HALF_OPEN_MAX_CALLS
+      ? parseInt(process.env.CIRCUIT_HALF_OPEN_MAX_CALLS, 10)
+      : undefined,
+    // An empty MODEL_FALLBACK_CHAIN turns fallback off
+    modelFallbackChain:
+      process.env.MODEL_FALLBACK_CHAIN !== undefined
+        ? process.env.MODEL_FALLBACK_CHAIN.split(',')
+            .map(model => model.trim())
+            .filter(Boolean)
+        : undefined,
+    maxConcurrentRequests: process.env.MAX_CONCURRENT_REQUESTS
+      ? parseInt(process.env.MAX_CONCURRENT_REQUESTS, 10)
+      : undefined,
+    modelConcurrency: process.env.MODEL_CONCURRENCY
+      ? Object.fromEntries(
+          process.env.MODEL_CONCURRENCY.split(',')
+            .map(entry => entry.split('=').map(part => part.trim()))
+            .filter(([model, limit]) => model && limit)
+            .map(([model, limit]) => [model, parseInt(limit, 10)])
+        )
+      : undefined,
+    maxQueueSize: process.env.MAX_QUEUE_SIZE ? parseInt(process.env.MAX_QUEUE_SIZE, 10) : undefined,
     rateLimitEnabled: process.env.RATE_LIMIT_ENABLED !== 'false',
     rateLimitRequests: process.env.RATE_LIMIT_REQUESTS
       ? parseInt(process.env.RATE_LIMIT_REQUESTS, 10)
@@ -39,9 +178,26 @@ export function loadConfig(): Config {
     rateLimitWindow: process.env.RATE_LIMIT_WINDOW
       ? parseInt(process.env.RATE_LIMIT_WINDOW, 10)
       : undefined,
+    rateLimitMode: process.env.RATE_LIMIT_MODE,
+    modelQuotas: parseModelQuotas(),
     requestTimeout: process.env.REQUEST_TIMEOUT
       ? parseInt(process.env.REQUEST_TIMEOUT, 10)
       : undefined,
+    toolTimeouts: process.env.TOOL_TIMEOUTS
+      ? Object.fromEntries(
+          process.env.TOOL_TIMEOUTS.split(',')
+            .map(entry => entry.split('=').map(part => part.trim()))
+            .filter(([tool, timeout]) => tool && timeout)
+            .map(([tool, timeout]) => [tool, parseInt(timeout, 10)])
+        )
+      : undefined,
+    retryMaxAttempts: process.env.RETRY_MAX_ATTEMPTS
+      ? parseInt(process.env.RETRY_MAX_ATTEMPTS, 10)
+      : undefined,
+    retryBaseDelay: process.env.RETRY_BASE_DELAY
+      ? parseInt(process.env.RETRY_BASE_DELAY, 10)
+      : undefined,
+    retryBudget: process.env.RETRY_BUDGET ? parseInt(process.env.RETRY_BUDGET, 10) : undefined,
     isDevelopment: process.env.NODE_ENV === 'development'
   };
 
@@ -1,180 +1,217 @@
 #!/usr/bin/env node
 import { GoogleGenAI } from '@google/genai';
-import { createInterface } from 'readline';
-import { MCPRequest, MCPResponse } from './types.js';
+import {
+  InitializeResult,
+  LoggingMessageParams,
+  MCPRequest,
+  MCPResponse,
+  MessageHandler,
+  NotificationMessage,
+  RequestContext,
+  ServerCapabilities,
+  SessionState,
+  Transport
+} from './types.js';
 import { config } from './config/index.js';
-import { logger } from './utils/logger.js';
+import {
+  isLoggingLevel,
+  logger,
+  LOGGING_LEVELS,
+  meetsLevel,
+  runInSession,
+  toLoggingLevel
+} from './utils/logger.js';
+import { concurrencyLimiter } from './utils/concurrency.js';
 import { rateLimiter } from './utils/rateLimiter.js';
-import { MCPError, ValidationError } from './utils/errors.js';
-import { Validator, ToolSchemas } from './utils/validation.js';
-
-// Increase max buffer size for large images (10MB)
-if (process.stdin.setEncoding) {
-  process.stdin.setEncoding('utf8');
-}
-
-// Available Gemini models as of July 2025
-const GEMINI_MODELS = {
-  // Thinking models (2.5 series) - latest and most capable
-  'gemini-2.5-pro': {
-    description: 'Most capable thinking model, best for complex reasoning and coding',
-    features: ['thinking', 'function_calling', 'json_mode', 'grounding', 'system_instructions'],
-    contextWindow: 2000000, // 2M tokens
-    thinking: true
-  },
-  'gemini-2.5-flash': {
-    description: 'Fast thinking model with best price/performance ratio',
-    features: ['thinking', 'function_calling', 'json_mode', 'grounding', 'system_instructions'],
-    contextWindow: 1000000, // 1M tokens
-    thinking: true
-  },
-  'gemini-2.5-flash-lite': {
-    description: 'Ultra-fast, cost-efficient thinking model for high-throughput tasks',
-    features: ['thinking', 'function_calling', 'json_mode', 'system_instructions'],
-    contextWindow: 1000000,
-    thinking: true
-  },
-
-  // 2.0 series
-  'gemini-2.0-flash': {
-    description: 'Fast, efficient model with 1M context window',
-    features: ['function_calling', 'json_mode', 'grounding', 'system_instructions'],
-    contextWindow: 1000000
-  },
-  'gemini-2.0-flash-lite': {
-    description: 'Most cost-efficient model for simple tasks',
-    features: ['function_calling', 'json_mode', 'system_instructions'],
-    contextWindow: 1000000
-  },
-  'gemini-2.0-pro-experimental': {
-    description: 'Experimental model with 2M context, excellent for coding',
-    features: ['function_calling', 'json_mode', 'grounding', 'system_instructions'],
-    contextWindow: 2000000
-  },
-
-  // Legacy models (for compatibility)
-  'gemini-1.5-pro': {
-    description: 'Previous generation pro model',
-    features: ['function_calling', 'json_mode', 'system_instructions'],
-    contextWindow: 2000000
-  },
-  'gemini-1.5-flash': {
-    description: 'Previous generation fast model',
-    features: ['function_calling', 'json_mode', 'system_instructions'],
-    contextWindow: 1000000
-  }
+import {
+  ErrorHandler,
+  MCPError,
+  ResourceNotFoundError,
+  ToolExecutionError,
+  ValidationError
+} from './utils/errors.js';
+import { ConversationChange, ConversationStore } from './utils/conversationStore.js';
+import { MetricsCollector } from './utils/metrics.js';
+import { RequestRegistry } from './utils/requestRegistry.js';
+import { PromptRegistry } from './prompts/registry.js';
+import { BUILTIN_PROMPTS } from './prompts/builtin.js';
+import { PromptLibrary } from './prompts/library.js';
+import { LoadedPlugin, PluginLoader } from './plugins/loader.js';
+import { CompletionProvider } from './completions.js';
+import { modelCatalog } from './models.js';
+import { modelFallback } from './modelFallback.js';
+import { BUILTIN_TOOLS } from './tools/builtin.js';
+import { renderHelp } from './tools/getHelp.js';
+import { ToolRegistry } from './tools/registry.js';
+import { SERVER_VERSION } from './version.js';
+import {
+  matchResourceTemplate,
+  renderModelCard,
+  renderTranscript,
+  RESOURCE_TEMPLATES,
+  ResourceTemplateMatch
+} from './resources/templates.js';
+import { ResourceSubscriptions } from './resources/subscriptions.js';
+import { StdioTransport } from './transports/stdio.js';
+import { StreamableHttpTransport } from './transports/http.js';
+import { LegacySseTransport } from './transports/sse.js';
+import {
+  adaptToolDefinition,
+  adaptToolResult,
+  getProtocolFeatures,
+  negotiateProtocolVersion,
+  OLDEST_PROTOCOL_VERSION
+} from './protocol.js';
+
+const SERVER_CAPABILITIES: ServerCapabilities = {
+  tools: { listChanged: true },
+  resources: { subscribe: true, listChanged: true },
+  prompts: { listChanged: true },
+  completions: {},
+  logging: {}
 };
 
-class EnhancedStdioMCPServer {
+const METRICS_URI = 'gemini://metrics';
+const PLUGINS_URI = 'gemini://plugins';
+
+class EnhancedStdioMCPServer implements MessageHandler {
   private genAI: GoogleGenAI;
-  private conversations: Map<string, any[]> = new Map();
+  private conversations = new ConversationStore(change => this.onConversationChange(change));
+  private metrics = new MetricsCollector();
+  private subscriptions = new ResourceSubscriptions();
+  private sessions = new Map<string, SessionState>();
+  private inFlight = new RequestRegistry();
+  private prompts = new PromptRegistry(BUILTIN_PROMPTS);
+  private tools = new ToolRegistry(BUILTIN_TOOLS, {
+    timeoutMs: config.requestTimeout,
+    toolTimeouts: config.toolTimeouts,
+    retry: {
+      maxAttempts: config.retryMaxAttempts,
+      baseDelay: config.retryBaseDelay,
+      budgetMs: config.retryBudget
+    },
+    limiter: concurrencyLimiter,
+    rateLimiter
+  });
+  private promptLibrary?: PromptLibrary;
+  private plugins?: PluginLoader;
+  private notifiers = new Map<string, (message: NotificationMessage) => void>();
+  private completions = new CompletionProvider({
+    prompts: this.prompts,
+    models: () => modelCatalog.names(),
+    conversations: sessionId => this.conversations.list(sessionId)
+  });
 
   constructor(apiKey: string) {
     logger.startup('Connecting to Google Gemini API...');
     this.genAI = new GoogleGenAI({ apiKey });
     logger.success('Gemini API client initialized');
-    this.setupStdioInterface();
-    logger.success('Stdio interface configured');
-  }
 
-  private setupStdioInterface() {
-    const rl = createInterface({
-      input: process.stdin,
-      output: process.stdout,
-      terminal: false,
-      // Increase max line length for large image data
-      crlfDelay: Infinity
-    });
-
-    rl.on('line', line => {
-      if (line.trim()) {
-        try {
-          const request: MCPRequest = JSON.parse(line);
-
-          // Validate MCP request structure
-          Validator.validateMCPRequest(request);
-
-          // Apply rate limiting
-          rateLimiter.checkLimit();
-
-          logger.request(`Received request: ${request.method} (ID: ${request.id})`);
-          this.handleRequest(request);
-        } catch (error) {
-          logger.error('Failed to parse or validate message:', error);
+    logger.addSink((record, sessionId) => this.forwardLog(record, sessionId));
+    this.metrics.onUpdate(() => this.notifyResourceUpdated(uri => uri === METRICS_URI));
+    concurrencyLimiter.onAcquire((model, waitMs) => this.metrics.recordQueueWait(model, waitMs));
+    modelCatalog.onChange(() => this.onModelsChange());
+  }
 
-          // Send error response if we can determine the request ID
-          try {
-            const partialRequest = JSON.parse(line);
-            if (partialRequest.id) {
-              const errorResponse =
-                error instanceof MCPError
-                  ? error.toMCPResponse(partialRequest.id)
-                  : new MCPError('Invalid request format').toMCPResponse(partialRequest.id);
-              this.sendResponse(errorResponse);
-            }
-          } catch {
-            // If we can't parse at all, just log the error
-          }
-        }
-      }
-    });
+  handleRequest(request: MCPRequest, context: RequestContext) {
+    return runInSession(context.sessionId, () => this.processRequest(request, context));
+  }
 
-    process.stdin.on('error', err => {
-      console.error('stdin error:', err);
-    });
+  handleNotification(notification: NotificationMessage, context: RequestContext) {
+    runInSession(context.sessionId, () => this.processNotification(notification, context));
   }
 
-  private async handleRequest(request: MCPRequest) {
+  private async processRequest(request: MCPRequest, context: RequestContext) {
     console.error('Handling request:', request.method);
+
+    // Track requests so the client can cancel them
+    if (request.method !== 'initialize') {
+      context = {
+        ...context,
+        signal: this.inFlight.begin(context.sessionId, request.id, request.method),
+        progressToken: request.params?._meta?.progressToken
+      };
+    }
+
     try {
       let response: MCPResponse;
 
       switch (request.method) {
         case 'initialize':
+          response = {
+            jsonrpc: '2.0',
+            id: request.id,
+            result: this.initialize(request, context)
+          };
+          break;
+
+        case 'tools/list': {
+          const { features } = this.getSession(context.sessionId);
           response = {
             jsonrpc: '2.0',
             id: request.id,
             result: {
-              protocolVersion: '2024-11-05',
-              serverInfo: {
-                name: 'mcp-server-gemini-enhanced',
-                version: '4.1.0'
-              },
-              capabilities: {
-                tools: {},
-                resources: {},
-                prompts: {}
-              }
+              tools: this.tools.list().map(tool => adaptToolDefinition(tool, features))
             }
           };
           break;
+        }
+
+        case 'tools/call': {
+          const { features } = this.getSession(context.sessionId);
+          const startedAt = Date.now();
+          let failed = true;
+          try {
+            response = await this.handleToolCall(request, context);
+            failed = !!(response.error || response.result?.isError);
+          } finally {
+            this.metrics.recordToolCall(
+              request.params?.name ?? 'unknown',
+              Date.now() - startedAt,
+              failed
+            );
+          }
+          if (response.result) {
+            response.result = adaptToolResult(response.result, features);
+          }
+          break;
+        }
 
-        case 'tools/list':
+        case 'resources/list':
           response = {
             jsonrpc: '2.0',
             id: request.id,
             result: {
-              tools: this.getAvailableTools()
+              resources: this.getAvailableResources(context.sessionId)
             }
           };
           break;
 
-        case 'tools/call':
-          response = await this.handleToolCall(request);
+        case 'resources/subscribe':
+          this.subscriptions.subscribe(
+            context.sessionId,
+            this.resolveSubscriptionUri(request.params?.uri, context.sessionId)
+          );
+          response = { jsonrpc: '2.0', id: request.id, result: {} };
           break;
 
-        case 'resources/list':
+        case 'resources/unsubscribe':
+          this.subscriptions.unsubscribe(context.sessionId, request.params?.uri);
+          response = { jsonrpc: '2.0', id: request.id, result: {} };
+          break;
+
+        case 'resources/templates/list':
           response = {
             jsonrpc: '2.0',
             id: request.id,
             result: {
-              resources: this.getAvailableResources()
+              resourceTemplates: RESOURCE_TEMPLATES
             }
           };
           break;
 
         case 'resources/read':
-          response = await this.handleResourceRead(request);
+          response = await this.handleResourceRead(request, context);
           break;
 
         case 'prompts/list':
@@ -182,17 +219,33 @@ class EnhancedStdioMCPServer {
             jsonrpc: '2.0',
             id: request.id,
             result: {
-              prompts: this.getAvailablePrompts()
+              prompts: this.prompts.list()
             }
           };
           break;
 
-        default:
-          if (!('id' in request)) {
-            console.error(`Notification received: ${(request as any).method}`);
-            return;
-          }
+        case 'prompts/get':
+          response = {
+            jsonrpc: '2.0',
+            id: request.id,
+            result: this.prompts.get(request.params?.name, request.params?.arguments)
+          };
+          break;
+
+        case 'completion/complete':
+          response = {
+            jsonrpc: '2.0',
+            id: request.id,
+            result: { completion: this.completions.complete(request.params, context.sessionId) }
+          };
+          break;
 
+        case 'logging/setLevel':
+          this.setLogLevel(request.params?.level, context);
+          response = { jsonrpc: '2.0', id: request.id, result: {} };
+          break;
+
+        default:
           response = {
             jsonrpc: '2.0',
             id: request.id,
@@ -203,192 +256,281 @@ class EnhancedStdioMCPServer {
           };
       }
 
-      this.sendResponse(response);
+      this.sendResponse(response, context);
     } catch (error) {
-      const errorResponse: MCPResponse = {
+      const errorResponse: MCPResponse =
+        error instanceof MCPError
+          ? (error.toMCPResponse(request.id) as MCPResponse)
+          : {
+              jsonrpc: '2.0',
+              id: request.id,
+              error: {
+                code: -32603,
+                message: error instanceof Error ? error.message : 'Internal error'
+              }
+            };
+      this.sendResponse(errorResponse, context);
+    } finally {
+      if (context.signal) {
+        this.inFlight.end(context.sessionId, request.id);
+      }
+    }
+  }
+
+  private processNotification(notification: NotificationMessage, context: RequestContext) {
+    switch (notification.method) {
+      case 'notifications/initialized':
+        logger.debug(`Session ${context.sessionId} is ready`);
+        break;
+
+      case 'notifications/cancelled':
+        this.inFlight.cancel(
+          context.sessionId,
+          notification.params?.requestId,
+          notification.params?.reason
+        );
+        break;
+
+      default:
+        logger.debug(`Ignoring notification: ${notification.method}`);
+    }
+  }
+
+  handleResponse(response: MCPResponse, context: RequestContext) {
+    // The server does not send requests to clients yet, so nothing is waiting on this
+    logger.debug(`Ignoring response ${response.id} from session ${context.sessionId}`);
+  }
+
+  openSession(sessionId: string, notify: (message: NotificationMessage) => void) {
+    this.notifiers.set(sessionId, notify);
+  }
+
+  closeSession(sessionId: string) {
+    this.inFlight.cancelSession(sessionId);
+    this.conversations.clearNamespace(sessionId);
+    this.sessions.delete(sessionId);
+    this.notifiers.delete(sessionId);
+    this.subscriptions.clearSession(sessionId);
+  }
+
+  /**
+   * Load user prompts from disk and tell clients whenever the directory changes
+   */
+  async loadPromptLibrary(directory: string) {
+    this.promptLibrary = new PromptLibrary(directory, this.prompts, () =>
+      this.broadcast({ jsonrpc: '2.0', method: 'notifications/prompts/list_changed' })
+    );
+    await this.promptLibrary.load();
+    this.promptLibrary.watch();
+  }
+
+  /**
+   * Load plugins and tell clients about the tools and prompts they add
+   */
+  async loadPlugins(specifiers: string[]) {
+    this.onPluginsChange(await this.getPluginLoader().loadAll(specifiers));
+  }
+
+  /**
+   * Load the plugins in a directory, then load, reload and unload them as its files change
+   */
+  async loadPluginDirectory(directory: string) {
+    const loader = this.getPluginLoader();
+    this.onPluginsChange(await loader.loadDirectory(directory));
+    loader.watchDirectory(directory, changed => this.onPluginsChange(changed));
+  }
+
+  private getPluginLoader(): PluginLoader {
+    this.plugins ??= new PluginLoader({
+      genAI: this.genAI,
+      conversations: this.conversations,
+      tools: this.tools,
+      prompts: this.prompts
+    });
+    return this.plugins;
+  }
+
+  /**
+   * Tell clients about the tools and prompts of plugins that were loaded or unloaded
+   */
+  private onPluginsChange(changed: LoadedPlugin[]) {
+    if (changed.some(plugin => plugin.tools.length > 0)) {
+      this.broadcast({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+    }
+    if (changed.some(plugin => plugin.prompts.length > 0)) {
+      this.broadcast({ jsonrpc: '2.0', method: 'notifications/prompts/list_changed' });
+    }
+    // Load errors change even when no plugin did
+    this.notifyResourceUpdated(uri => uri === PLUGINS_URI);
+  }
+
+  /**
+   * Load the model catalogue from the cache or the API, and keep it fresh
+   */
+  refreshModels() {
+    return modelCatalog.autoRefresh(this.genAI);
+  }
+
+  close() {
+    this.promptLibrary?.close();
+    this.plugins?.close();
+    modelCatalog.close();
+  }
+
+  private setLogLevel(level: unknown, context: RequestContext) {
+    if (!isLoggingLevel(level)) {
+      throw new ValidationError(`Invalid log level: ${level}`, { allowed: LOGGING_LEVELS });
+    }
+
+    const session = this.sessions.get(context.sessionId);
+    if (!session) {
+      throw new ValidationError('logging/setLevel requires an initialized session');
+    }
+    session.logLevel = level;
+  }
+
+  /**
+   * Forward a log record as notifications/message to the session that logged
+   * it, if it meets the session's level. Records logged outside a session
+   * stay on stderr.
+   */
+  private forwardLog(record: LoggingMessageParams, sessionId?: string) {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (sessionId && session && meetsLevel(record.level, session.logLevel)) {
+      this.notifySession(sessionId, {
         jsonrpc: '2.0',
-        id: request.id,
-        error: {
-          code: -32603,
-          message: error instanceof Error ? error.message : 'Internal error'
-        }
-      };
-      this.sendResponse(errorResponse);
+        method: 'notifications/message',
+        params: record
+      });
     }
   }
 
-  private getAvailableTools() {
-    return [
-      {
-        name: 'generate_text',
-        description: 'Generate text using Google Gemini with advanced features',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            prompt: {
-              type: 'string',
-              description: 'The prompt to send to Gemini'
-            },
-            model: {
-              type: 'string',
-              description: 'Specific Gemini model to use',
-              enum: Object.keys(GEMINI_MODELS),
-              default: 'gemini-2.5-flash'
-            },
-            systemInstruction: {
-              type: 'string',
-              description: 'System instruction to guide model behavior'
-            },
-            temperature: {
-              type: 'number',
-              description: 'Temperature for generation (0-2)',
-              default: 0.7,
-              minimum: 0,
-              maximum: 2
-            },
-            maxTokens: {
-              type: 'number',
-              description: 'Maximum tokens to generate',
-              default: 2048
-            },
-            topK: {
-              type: 'number',
-              description: 'Top-k sampling parameter',
-              default: 40
-            },
-            topP: {
-              type: 'number',
-              description: 'Top-p (nucleus) sampling parameter',
-              default: 0.95
-            },
-            jsonMode: {
-              type: 'boolean',
-              description: 'Enable JSON mode for structured output',
-              default: false
-            },
-            jsonSchema: {
-              type: 'string',
-              description: 'JSON schema as a string for structured output (when jsonMode is true)'
-            },
-            grounding: {
-              type: 'boolean',
-              description: 'Enable Google Search grounding for up-to-date information',
-              default: false
-            },
-            safetySettings: {
-              type: 'string',
-              description: 'Safety settings as JSON string for content filtering'
-            },
-            conversationId: {
-              type: 'string',
-              description: 'ID for maintaining conversation context'
-            }
-          },
-          required: ['prompt']
-        }
-      },
-      {
-        name: 'analyze_image',
-        description: 'Analyze images using Gemini vision capabilities',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            prompt: {
-              type: 'string',
-              description: 'Question or instruction about the image'
-            },
-            imageUrl: {
-              type: 'string',
-              description: 'URL of the image to analyze'
-            },
-            imageBase64: {
-              type: 'string',
-              description: 'Base64-encoded image data (alternative to URL)'
-            },
-            model: {
-              type: 'string',
-              description: 'Vision-capable Gemini model',
-              enum: ['gemini-2.5-pro', 'gemini-2.5-flash', 'gemini-2.0-flash'],
-              default: 'gemini-2.5-flash'
-            }
-          },
-          required: ['prompt']
-        }
-      },
-      {
-        name: 'count_tokens',
-        description: 'Count tokens for a given text with a specific model',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            text: {
-              type: 'string',
-              description: 'Text to count tokens for'
-            },
-            model: {
-              type: 'string',
-              description: 'Model to use for token counting',
-              enum: Object.keys(GEMINI_MODELS),
-              default: 'gemini-2.5-flash'
-            }
-          },
-          required: ['text']
-        }
-      },
-      {
-        name: 'list_models',
-        description: 'List all available Gemini models and their capabilities',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            filter: {
-              type: 'string',
-              description: 'Filter models by capability',
-              enum: ['all', 'thinking', 'vision', 'grounding', 'json_mode']
-            }
-          }
-        }
-      },
-      {
-        name: 'embed_text',
-        description: 'Generate embeddings for text using Gemini embedding models',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            text: {
-              type: 'string',
-              description: 'Text to generate embeddings for'
-            },
-            model: {
-              type: 'string',
-              description: 'Embedding model to use',
-              enum: ['text-embedding-004', 'text-multilingual-embedding-002'],
-              default: 'text-embedding-004'
-            }
-          },
-          required: ['text']
-        }
+  /**
+   * Send a notification to every initialized session
+   */
+  private broadcast(notification: NotificationMessage) {
+    for (const sessionId of this.notifiers.keys()) {
+      this.notifySession(sessionId, notification);
+    }
+  }
+
+  /**
+   * Send a notification to one session, once it has been initialized
+   */
+  private notifySession(sessionId: string, notification: NotificationMessage) {
+    const notify = this.notifiers.get(sessionId);
+    if (notify && this.sessions.has(sessionId)) {
+      notify(notification);
+    }
+  }
+
+  /**
+   * Send notifications/resources/updated for each subscription the predicate matches
+   */
+  private notifyResourceUpdated(matches: (uri: string) => boolean, sessionId?: string) {
+    const subscriptions = sessionId
+      ? this.subscriptions.find(sessionId, matches).map(uri => ({ sessionId, uri }))
+      : this.subscriptions.findAll(matches);
+
+    for (const subscription of subscriptions) {
+      this.notifySession(subscription.sessionId, {
+        jsonrpc: '2.0',
+        method: 'notifications/resources/updated',
+        params: { uri: subscription.uri }
+      });
+    }
+  }
+
+  private onConversationChange({ namespace, conversationId, type }: ConversationChange) {
+    if (type === 'created') {
+      this.notifySession(namespace, {
+        jsonrpc: '2.0',
+        method: 'notifications/resources/list_changed'
+      });
+    }
+
+    this.notifyResourceUpdated(uri => {
+      const template = matchResourceTemplate(uri);
+      return template?.type === 'conversation' && template.id === conversationId;
+    }, namespace);
+  }
+
+  /**
+   * The model enums in tools/list and the model resources follow the catalogue
+   */
+  private onModelsChange() {
+    this.broadcast({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+    this.notifyResourceUpdated(
+      uri => uri === 'gemini://models' || matchResourceTemplate(uri)?.type === 'model'
+    );
+  }
+
+  /**
+   * Check that a subscription names a resource this server can serve.
+   * Conversation URIs may name a conversation that does not exist yet.
+   */
+  private resolveSubscriptionUri(uri: unknown, sessionId: string): string {
+    if (typeof uri !== 'string' || !uri) {
+      throw new ValidationError('Missing required parameter: uri');
+    }
+
+    const template = matchResourceTemplate(uri);
+    const known =
+      template?.type === 'conversation' ||
+      (template?.type === 'model' && modelCatalog.has(template.name)) ||
+      this.getAvailableResources(sessionId).some(resource => resource.uri === uri);
+    if (!known) {
+      throw new ResourceNotFoundError(uri);
+    }
+    return uri;
+  }
+
+  private initialize(request: MCPRequest, context: RequestContext): InitializeResult {
+    const protocolVersion = negotiateProtocolVersion(request.params?.protocolVersion);
+    const clientCapabilities = request.params?.capabilities ?? {};
+
+    // Logged before the session exists, so no log notification precedes the response
+    logger.debug(`Session ${context.sessionId} negotiated protocol ${protocolVersion}`, {
+      client: request.params?.clientInfo?.name
+    });
+
+    this.sessions.set(context.sessionId, {
+      protocolVersion,
+      features: getProtocolFeatures(protocolVersion, clientCapabilities),
+      clientInfo: request.params?.clientInfo,
+      clientCapabilities,
+      logLevel: toLoggingLevel(config.logLevel),
+      initializedAt: new Date()
+    });
+
+    return {
+      protocolVersion,
+      serverInfo: {
+        name: 'mcp-server-gemini-enhanced',
+        version: SERVER_VERSION
       },
-      {
-        name: 'get_help',
-        description: 'Get help and usage information for the Gemini MCP server',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            topic: {
-              type: 'string',
-              description: 'Help topic to get information about',
-              enum: ['overview', 'tools', 'models', 'parameters', 'examples', 'quick-start'],
-              default: 'overview'
-            }
-          }
-        }
+      capabilities: SERVER_CAPABILITIES
+    };
+  }
+
+  /**
+   * Get the negotiated state for a session, assuming the oldest protocol
+   * version for clients that never sent initialize
+   */
+  private getSession(sessionId: string): SessionState {
+    return (
+      this.sessions.get(sessionId) ?? {
+        protocolVersion: OLDEST_PROTOCOL_VERSION,
+        features: getProtocolFeatures(OLDEST_PROTOCOL_VERSION),
+        clientCapabilities: {},
+        logLevel: toLoggingLevel(config.logLevel),
+        initializedAt: new Date()
       }
-    ];
+    );
   }
 
-  private getAvailableResources() {
-    return [
+  private getAvailableResources(sessionId: string) {
+    const resources = [
       {
         uri: 'gemini://models',
         name: 'Available Gemini Models',
@@ -420,463 +562,89 @@ class EnhancedStdioMCPServer {
         mimeType: 'text/markdown'
       }
     ];
-  }
-
-  private getAvailablePrompts() {
-    return [
-      {
-        name: 'code_review',
-        description: 'Comprehensive code review with Gemini 2.5 Pro',
-        arguments: [
-          {
-            name: 'code',
-            description: 'Code to review',
-            required: true
-          },
-          {
-            name: 'language',
-            description: 'Programming language',
-            required: false
-          }
-        ]
-      },
-      {
-        name: 'explain_with_thinking',
-        description: 'Deep explanation using Gemini 2.5 thinking capabilities',
-        arguments: [
-          {
-            name: 'topic',
-            description: 'Topic to explain',
-            required: true
-          },
-          {
-            name: 'level',
-            description: 'Explanation level (beginner/intermediate/expert)',
-            required: false
-          }
-        ]
-      },
-      {
-        name: 'creative_writing',
-        description: 'Creative writing with style control',
-        arguments: [
-          {
-            name: 'prompt',
-            description: 'Writing prompt',
-            required: true
-          },
-          {
-            name: 'style',
-            description: 'Writing style',
-            required: false
-          },
-          {
-            name: 'length',
-            description: 'Desired length',
-            required: false
-          }
-        ]
-      }
-    ];
-  }
 
-  private async handleToolCall(request: MCPRequest): Promise<MCPResponse> {
-    const { name, arguments: args } = request.params || {};
-
-    switch (name) {
-      case 'generate_text':
-        return await this.generateText(request.id, args);
-
-      case 'analyze_image':
-        return await this.analyzeImage(request.id, args);
-
-      case 'count_tokens':
-        return await this.countTokens(request.id, args);
-
-      case 'list_models':
-        return this.listModels(request.id, args);
-
-      case 'embed_text':
-        return await this.embedText(request.id, args);
-
-      case 'get_help':
-        return this.getHelp(request.id, args);
-
-      default:
-        return {
-          jsonrpc: '2.0',
-          id: request.id,
-          error: {
-            code: -32601,
-            message: `Unknown tool: ${name}`
-          }
-        };
+    if (config.enableMetrics) {
+      resources.push({
+        uri: METRICS_URI,
+        name: 'Server Metrics',
+        description: 'Tool call counts, error counts and average durations',
+        mimeType: 'application/json'
+      });
     }
-  }
-
-  private async generateText(id: any, args: any): Promise<MCPResponse> {
-    try {
-      // Validate parameters
-      const validatedArgs = Validator.validateToolParams(ToolSchemas.generateText, args);
-
-      const model = validatedArgs.model || 'gemini-2.5-flash';
-      logger.api(`Generating text with model: ${model}`);
-      const modelInfo = GEMINI_MODELS[model as keyof typeof GEMINI_MODELS];
-
-      if (!modelInfo) {
-        throw new Error(`Unknown model: ${model}`);
-      }
-
-      // Build generation config
-      const generationConfig: any = {
-        temperature: validatedArgs.temperature || 0.7,
-        maxOutputTokens: validatedArgs.maxTokens || 2048,
-        topK: validatedArgs.topK || 40,
-        topP: validatedArgs.topP || 0.95
-      };
-
-      // Add JSON mode if requested
-      if (validatedArgs.jsonMode) {
-        generationConfig.responseMimeType = 'application/json';
-        if (validatedArgs.jsonSchema) {
-          try {
-            generationConfig.responseSchema = Validator.validateJSON(validatedArgs.jsonSchema);
-          } catch (error) {
-            logger.error('Invalid JSON schema provided:', error);
-            throw new ValidationError('Invalid JSON schema format');
-          }
-        }
-      }
-
-      // Build the request
-      const requestBody: any = {
-        model,
-        contents: [
-          {
-            parts: [
-              {
-                text: Validator.sanitizeString(validatedArgs.prompt)
-              }
-            ],
-            role: 'user'
-          }
-        ],
-        generationConfig
-      };
-
-      // Add system instruction if provided
-      if (validatedArgs.systemInstruction) {
-        requestBody.systemInstruction = {
-          parts: [
-            {
-              text: Validator.sanitizeString(validatedArgs.systemInstruction)
-            }
-          ]
-        };
-      }
 
-      // Add safety settings if provided
-      if (args.safetySettings) {
-        try {
-          requestBody.safetySettings =
-            typeof args.safetySettings === 'string'
-              ? JSON.parse(args.safetySettings)
-              : args.safetySettings;
-        } catch (error) {
-          console.error('Invalid safety settings JSON provided:', error);
-        }
-      }
-
-      // Add grounding if requested and supported
-      if (args.grounding && modelInfo.features.includes('grounding')) {
-        requestBody.tools = [
-          {
-            googleSearch: {}
-          }
-        ];
-      }
-
-      // Handle conversation context
-      if (args.conversationId) {
-        const history = this.conversations.get(args.conversationId) || [];
-        if (history.length > 0) {
-          requestBody.contents = [...history, ...requestBody.contents];
-        }
-      }
-
-      // Call the API using the new SDK format
-      const result = await this.genAI.models.generateContent({
-        model,
-        ...requestBody
+    if (config.plugins.length > 0 || config.pluginsDir) {
+      resources.push({
+        uri: PLUGINS_URI,
+        name: 'Plugins',
+        description: 'Loaded plugins with their tools and prompts, and plugins that failed to load',
+        mimeType: 'application/json'
       });
-      const text = result.text || '';
-
-      // Update conversation history if needed
-      if (args.conversationId) {
-        const history = this.conversations.get(args.conversationId) || [];
-        history.push(...requestBody.contents);
-        history.push({
-          parts: [
-            {
-              text
-            }
-          ],
-          role: 'model'
-        });
-        this.conversations.set(args.conversationId, history);
-      }
-
-      return {
-        jsonrpc: '2.0',
-        id,
-        result: {
-          content: [
-            {
-              type: 'text',
-              text
-            }
-          ],
-          metadata: {
-            model,
-            tokensUsed: result.usageMetadata?.totalTokenCount,
-            candidatesCount: result.candidates?.length || 1,
-            finishReason: result.candidates?.[0]?.finishReason
-          }
-        }
-      };
-    } catch (error) {
-      console.error('Error in generateText:', error);
-      return {
-        jsonrpc: '2.0',
-        id,
-        error: {
-          code: -32603,
-          message: error instanceof Error ? error.message : 'Internal error'
-        }
-      };
     }
-  }
-
-  private async analyzeImage(id: any, args: any): Promise<MCPResponse> {
-    try {
-      const model = args.model || 'gemini-2.5-flash';
-
-      // Validate inputs
-      if (!args.imageUrl && !args.imageBase64) {
-        throw new Error('Either imageUrl or imageBase64 must be provided');
-      }
-
-      // Prepare image part
-      let imagePart: any;
-      if (args.imageUrl) {
-        // For URL, we'd need to fetch and convert to base64
-        // For now, we'll just pass the URL as instruction
-        imagePart = {
-          text: `[Image URL: ${args.imageUrl}]`
-        };
-      } else if (args.imageBase64) {
-        // Log base64 data size for debugging
-        console.error(`Image base64 length: ${args.imageBase64.length}`);
-
-        // Extract MIME type and data
-        const matches = args.imageBase64.match(/^data:(.+);base64,(.+)$/);
-        if (matches) {
-          console.error(`MIME type: ${matches[1]}, Data length: ${matches[2].length}`);
-          imagePart = {
-            inlineData: {
-              mimeType: matches[1],
-              data: matches[2]
-            }
-          };
-        } else {
-          // If no data URI format, assume raw base64
-          console.error('Raw base64 data detected');
-          imagePart = {
-            inlineData: {
-              mimeType: 'image/jpeg',
-              data: args.imageBase64
-            }
-          };
-        }
-      }
 
-      const result = await this.genAI.models.generateContent({
-        model,
-        contents: [
-          {
-            parts: [{ text: args.prompt }, imagePart],
-            role: 'user'
-          }
-        ]
+    // The caller's own conversations; the list changes as they are created
+    for (const id of this.conversations.list(sessionId)) {
+      resources.push({
+        uri: `gemini://conversations/${encodeURIComponent(id)}`,
+        name: `Conversation: ${id}`,
+        description: 'Transcript of a generate_text conversation',
+        mimeType: 'text/markdown'
       });
-
-      const text = result.text || '';
-
-      return {
-        jsonrpc: '2.0',
-        id,
-        result: {
-          content: [
-            {
-              type: 'text',
-              text
-            }
-          ]
-        }
-      };
-    } catch (error) {
-      console.error('Error in analyzeImage:', error);
-      return {
-        jsonrpc: '2.0',
-        id,
-        error: {
-          code: -32603,
-          message: `Image analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-        }
-      };
     }
+
+    return resources;
   }
 
-  private async countTokens(id: any, args: any): Promise<MCPResponse> {
-    try {
-      const model = args.model || 'gemini-2.5-flash';
+  /**
+   * Run a tool. Failures during execution (ToolExecutionError) come back as
+   * an `isError` result; protocol errors such as an unknown tool or invalid
+   * arguments are thrown and answered with a JSON-RPC error.
+   */
+  private async handleToolCall(request: MCPRequest, context: RequestContext): Promise<MCPResponse> {
+    const { name, arguments: args } = request.params || {};
 
-      const result = await this.genAI.models.countTokens({
-        model,
-        contents: [
-          {
-            parts: [
-              {
-                text: args.text
-              }
-            ],
-            role: 'user'
-          }
-        ]
+    try {
+      const result = await this.tools.call(name, args, {
+        ...context,
+        genAI: this.genAI,
+        conversations: this.conversations,
+        tools: this.tools
       });
-
-      return {
-        jsonrpc: '2.0',
-        id,
-        result: {
-          content: [
-            {
-              type: 'text',
-              text: `Token count: ${result.totalTokens}`
-            }
-          ],
-          metadata: {
-            tokenCount: result.totalTokens,
-            model
-          }
-        }
-      };
+      return { jsonrpc: '2.0', id: request.id, result };
     } catch (error) {
-      return {
-        jsonrpc: '2.0',
-        id,
-        error: {
-          code: -32603,
-          message: error instanceof Error ? error.message : 'Internal error'
-        }
-      };
-    }
-  }
+      const mcpError = ErrorHandler.toMCPError(error);
+      if (!(mcpError instanceof ToolExecutionError)) {
+        throw mcpError;
+      }
 
-  private listModels(id: any, args: any): MCPResponse {
-    const filter = args?.filter || 'all';
-    let models = Object.entries(GEMINI_MODELS);
-
-    if (filter !== 'all') {
-      models = models.filter(([_, info]) => {
-        switch (filter) {
-          case 'thinking':
-            return 'thinking' in info && info.thinking === true;
-          case 'vision':
-            return info.features.includes('function_calling'); // All current models support vision
-          case 'grounding':
-            return info.features.includes('grounding');
-          case 'json_mode':
-            return info.features.includes('json_mode');
-          default:
-            return true;
-        }
-      });
+      logger.error(`Tool ${name} failed:`, mcpError);
+      return { jsonrpc: '2.0', id: request.id, result: mcpError.toToolResult() };
     }
-
-    const modelList = models.map(([name, info]) => ({
-      name,
-      ...info
-    }));
-
-    return {
-      jsonrpc: '2.0',
-      id,
-      result: {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(modelList, null, 2)
-          }
-        ],
-        metadata: {
-          count: modelList.length,
-          filter
-        }
-      }
-    };
   }
 
-  private async embedText(id: any, args: any): Promise<MCPResponse> {
-    try {
-      const model = args.model || 'text-embedding-004';
-
-      const result = await this.genAI.models.embedContent({
-        model,
-        contents: args.text
-      });
+  private async handleResourceRead(
+    request: MCPRequest,
+    context: RequestContext
+  ): Promise<MCPResponse> {
+    const uri = request.params?.uri;
 
+    if (!uri) {
       return {
         jsonrpc: '2.0',
-        id,
-        result: {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                embedding: result.embeddings?.[0]?.values || [],
-                model
-              })
-            }
-          ],
-          metadata: {
-            model,
-            dimensions: result.embeddings?.[0]?.values?.length || 0
-          }
-        }
-      };
-    } catch (error) {
-      return {
-        jsonrpc: '2.0',
-        id,
+        id: request.id,
         error: {
-          code: -32603,
-          message: error instanceof Error ? error.message : 'Internal error'
+          code: -32602,
+          message: 'Missing required parameter: uri'
         }
       };
     }
-  }
 
-  private async handleResourceRead(request: MCPRequest): Promise<MCPResponse> {
-    const uri = request.params?.uri;
-
-    if (!uri) {
+    const template = matchResourceTemplate(uri);
+    if (template) {
       return {
         jsonrpc: '2.0',
         id: request.id,
-        error: {
-          code: -32602,
-          message: 'Missing required parameter: uri'
+        result: {
+          contents: [{ uri, ...this.readTemplatedResource(uri, template, context.sessionId) }]
         }
       };
     }
@@ -886,7 +654,35 @@ class EnhancedStdioMCPServer {
 
     switch (uri) {
       case 'gemini://models':
-        content = JSON.stringify(GEMINI_MODELS, null, 2);
+        content = JSON.stringify(modelCatalog.all(), null, 2);
+        mimeType = 'application/json';
+        break;
+
+      case METRICS_URI:
+        if (!config.enableMetrics) {
+          throw new ResourceNotFoundError(uri);
+        }
+        content = JSON.stringify(
+          {
+            ...this.metrics.snapshot(),
+            circuits: modelFallback.snapshot(),
+            concurrency: concurrencyLimiter.snapshot()
+          },
+          null,
+          2
+        );
+        mimeType = 'application/json';
+        break;
+
+      case PLUGINS_URI:
+        if (!this.plugins) {
+          throw new ResourceNotFoundError(uri);
+        }
+        content = JSON.stringify(
+          { loaded: this.plugins.list(), errors: this.plugins.getErrors() },
+          null,
+          2
+        );
         mimeType = 'application/json';
         break;
 
@@ -937,29 +733,22 @@ class EnhancedStdioMCPServer {
         break;
 
       case 'gemini://help/usage':
-        content = `${this.getHelpContent('overview')}\n\n${this.getHelpContent('tools')}`;
+        content = `${renderHelp('overview', this.tools)}\n\n${renderHelp('tools', this.tools)}`;
         mimeType = 'text/markdown';
         break;
 
       case 'gemini://help/parameters':
-        content = this.getHelpContent('parameters');
+        content = renderHelp('parameters', this.tools);
         mimeType = 'text/markdown';
         break;
 
       case 'gemini://help/examples':
-        content = this.getHelpContent('examples');
+        content = renderHelp('examples', this.tools);
         mimeType = 'text/markdown';
         break;
 
       default:
-        return {
-          jsonrpc: '2.0',
-          id: request.id,
-          error: {
-            code: -32602,
-            message: `Unknown resource: ${uri}`
-          }
-        };
+        throw new ResourceNotFoundError(uri);
     }
 
     return {
@@ -977,318 +766,44 @@ class EnhancedStdioMCPServer {
     };
   }
 
-  private getHelpContent(topic: string): string {
-    // Extract help content generation to a separate method
-    switch (topic) {
-      case 'overview':
-        return `# Gemini MCP Server Help
-
-Welcome to the Gemini MCP Server v4.1.0! This server provides access to Google's Gemini AI models through Claude Desktop.
-
-## Available Tools
-1. **generate_text** - Generate text with advanced features
-2. **analyze_image** - Analyze images using vision models
-3. **count_tokens** - Count tokens for cost estimation
-4. **list_models** - List all available models
-5. **embed_text** - Generate text embeddings
-6. **get_help** - Get help on using this server
-
-## Quick Start
-- "Use Gemini to explain [topic]"
-- "Analyze this image with Gemini"
-- "List all Gemini models"
-- "Get help on parameters"
-
-## Key Features
-- Latest Gemini 2.5 models with thinking capabilities
-- JSON mode for structured output
-- Google Search grounding for current information
-- System instructions for behavior control
-- Conversation memory for context
-- Safety settings customization
-
-Use "get help on tools" for detailed tool information.`;
-
-      case 'tools':
-        return `# Available Tools
-
-## 1. generate_text
-Generate text using Gemini models with advanced features.
-
-**Parameters:**
-- prompt (required): Your text prompt
-- model: Choose from gemini-2.5-pro, gemini-2.5-flash, etc.
-- temperature: 0-2 (default 0.7)
-- maxTokens: Max output tokens (default 2048)
-- systemInstruction: Guide model behavior
-- jsonMode: Enable JSON output
-- grounding: Enable Google Search
-- conversationId: Maintain conversation context
-
-**Example:** "Use Gemini 2.5 Pro to explain quantum computing"
-
-## 2. analyze_image
-Analyze images using vision-capable models.
-
-**Parameters:**
-- prompt (required): Question about the image
-- imageUrl OR imageBase64 (required): Image source
-- model: Vision-capable model (default gemini-2.5-flash)
-
-**Example:** "Analyze this architecture diagram"
-
-## 3. count_tokens
-Count tokens for text with a specific model.
-
-**Parameters:**
-- text (required): Text to count
-- model: Model for counting (default gemini-2.5-flash)
-
-**Example:** "Count tokens for this paragraph"
-
-## 4. list_models
-List available models with optional filtering.
-
-**Parameters:**
-- filter: all, thinking, vision, grounding, json_mode
-
-**Example:** "List models with thinking capability"
-
-## 5. embed_text
-Generate embeddings for semantic search.
-
-**Parameters:**
-- text (required): Text to embed
-- model: text-embedding-004 or text-multilingual-embedding-002
-
-**Example:** "Generate embeddings for similarity search"
-
-## 6. get_help
-Get help on using this server.
-
-**Parameters:**
-- topic: overview, tools, models, parameters, examples, quick-start
-
-**Example:** "Get help on parameters"`;
-
-      case 'parameters':
-        return `# Parameter Reference
-
-## generate_text Parameters
-
-**Required:**
-- prompt (string): Your text prompt
-
-**Optional:**
-- model (string): Model to use (default: gemini-2.5-flash)
-- systemInstruction (string): System prompt for behavior
-- temperature (0-2): Creativity level (default: 0.7)
-- maxTokens (number): Max output tokens (default: 2048)
-- topK (number): Top-k sampling (default: 40)
-- topP (number): Nucleus sampling (default: 0.95)
-- jsonMode (boolean): Enable JSON output
-- jsonSchema (object): JSON schema for validation
-- grounding (boolean): Enable Google Search
-- conversationId (string): Conversation identifier
-- safetySettings (array): Content filtering settings
-
-## Temperature Guide
-- 0.1-0.3: Precise, factual
-- 0.5-0.8: Balanced (default 0.7)
-- 1.0-1.5: Creative
-- 1.5-2.0: Very creative
-
-## JSON Mode Example
-Enable jsonMode and provide jsonSchema:
-{
-  "type": "object",
-  "properties": {
-    "sentiment": {"type": "string"},
-    "score": {"type": "number"}
-  }
-}
-
-## Safety Settings
-Categories: HARASSMENT, HATE_SPEECH, SEXUALLY_EXPLICIT, DANGEROUS_CONTENT
-Thresholds: BLOCK_NONE, BLOCK_ONLY_HIGH, BLOCK_MEDIUM_AND_ABOVE, BLOCK_LOW_AND_ABOVE`;
-
-      case 'examples':
-        return `# Usage Examples
-
-## Basic Text Generation
-"Use Gemini to explain machine learning"
-
-## With Specific Model
-"Use Gemini 2.5 Pro to write a Python sorting function"
-
-## With Temperature
-"Use Gemini with temperature 1.5 to write a creative story"
-
-## JSON Mode
-"Use Gemini in JSON mode to analyze sentiment and return {sentiment, confidence, keywords}"
-
-## With Grounding
-"Use Gemini with grounding to research latest AI developments"
-
-## System Instructions
-"Use Gemini as a Python tutor to explain decorators"
-
-## Conversation Context
-"Start conversation 'chat-001' about web development"
-"Continue chat-001 and ask about React hooks"
-
-## Image Analysis
-"Analyze this screenshot and describe the UI elements"
-
-## Token Counting
-"Count tokens for this document using gemini-2.5-pro"
-
-## Complex Example
-"Use Gemini 2.5 Pro to review this code with:
-- System instruction: 'You are a security expert'
-- Temperature: 0.3
-- JSON mode with schema for findings
-- Grounding for latest security practices"`;
-
-      default:
-        return 'Unknown help topic.';
+  private readTemplatedResource(
+    uri: string,
+    template: ResourceTemplateMatch,
+    sessionId: string
+  ): { mimeType: string; text: string } {
+    if (template.type === 'model') {
+      const model = modelCatalog.get(template.name);
+      if (!model) {
+        throw new ResourceNotFoundError(uri);
+      }
+      return { mimeType: 'text/markdown', text: renderModelCard(template.name, model) };
     }
-  }
-
-  private getHelp(id: any, args: any): MCPResponse {
-    const topic = args?.topic || 'overview';
-    let helpContent = '';
-
-    switch (topic) {
-      case 'overview':
-        helpContent = this.getHelpContent('overview');
-        break;
-
-      case 'tools':
-        helpContent = this.getHelpContent('tools');
-        break;
-
-      case 'models':
-        helpContent = `# Available Gemini Models
-
-## Thinking Models (Latest - 2.5 Series)
-**gemini-2.5-pro**
-- Most capable, best for complex reasoning
-- 2M token context window
-- Features: thinking, JSON mode, grounding, system instructions
-
-**gemini-2.5-flash** ⭐ Recommended
-- Best balance of speed and capability
-- 1M token context window
-- Features: thinking, JSON mode, grounding, system instructions
-
-**gemini-2.5-flash-lite**
-- Ultra-fast, cost-efficient
-- 1M token context window
-- Features: thinking, JSON mode, system instructions
-
-## Standard Models (2.0 Series)
-**gemini-2.0-flash**
-- Fast and efficient
-- 1M token context window
-- Features: JSON mode, grounding, system instructions
-
-**gemini-2.0-flash-lite**
-- Most cost-efficient
-- 1M token context window
-- Features: JSON mode, system instructions
-
-**gemini-2.0-pro-experimental**
-- Excellent for coding
-- 2M token context window
-- Features: JSON mode, grounding, system instructions
-
-## Model Selection Guide
-- Complex reasoning: gemini-2.5-pro
-- General use: gemini-2.5-flash
-- Fast responses: gemini-2.5-flash-lite
-- Cost-sensitive: gemini-2.0-flash-lite
-- Coding tasks: gemini-2.0-pro-experimental`;
-        break;
-
-      case 'parameters':
-        helpContent = this.getHelpContent('parameters');
-        break;
-
-      case 'examples':
-        helpContent = this.getHelpContent('examples');
-        break;
-
-      case 'quick-start':
-        helpContent = `# Quick Start Guide
-
-## 1. Basic Usage
-Just ask naturally:
-- "Use Gemini to [your request]"
-- "Ask Gemini about [topic]"
-
-## 2. Common Tasks
-
-**Text Generation:**
-"Use Gemini to write a function that sorts arrays"
-
-**Image Analysis:**
-"What's in this image?" [attach image]
 
-**Model Info:**
-"List all Gemini models"
-
-**Token Counting:**
-"Count tokens for my prompt"
-
-## 3. Advanced Features
-
-**JSON Output:**
-"Use Gemini in JSON mode to extract key points"
-
-**Current Information:**
-"Use Gemini with grounding to get latest news"
-
-**Conversations:**
-"Start a chat with Gemini about Python"
-
-## 4. Tips
-- Use gemini-2.5-flash for most tasks
-- Lower temperature for facts, higher for creativity
-- Enable grounding for current information
-- Use conversation IDs to maintain context
-
-## Need More Help?
-- "Get help on tools" - Detailed tool information
-- "Get help on parameters" - All parameters explained
-- "Get help on models" - Model selection guide`;
-        break;
-
-      default:
-        helpContent =
-          'Unknown help topic. Available topics: overview, tools, models, parameters, examples, quick-start';
+    // Conversations are scoped to the caller's session like generate_text history
+    if (!this.conversations.has(sessionId, template.id)) {
+      throw new ResourceNotFoundError(uri);
     }
-
     return {
-      jsonrpc: '2.0',
-      id,
-      result: {
-        content: [
-          {
-            type: 'text',
-            text: helpContent
-          }
-        ]
-      }
+      mimeType: template.format === 'json' ? 'application/json' : 'text/markdown',
+      text: renderTranscript(
+        template.id,
+        this.conversations.get(sessionId, template.id),
+        template.format
+      )
     };
   }
 
-  private sendResponse(response: MCPResponse | any) {
-    const responseStr = JSON.stringify(response);
+  private sendResponse(response: MCPResponse, context: RequestContext) {
+    // The client has given up on cancelled requests, so their late responses are dropped
+    if (context.signal?.aborted) {
+      logger.debug(`Suppressing response for cancelled request ${response.id}`);
+      return;
+    }
+
     logger.response(
       `Sending response for ID: ${response.id} ${response.error ? '(ERROR)' : '(SUCCESS)'}`
     );
-    process.stdout.write(`${responseStr}\n`);
+    context.send(response);
   }
 }
 
@@ -1311,27 +826,55 @@ try {
     logger.info(`Rate limit: ${config.rateLimitRequests} requests per ${config.rateLimitWindow}ms`);
   }
 
+  logger.info(`Transport: ${config.transport}`);
+
   logger.startup('Initializing Gemini API connection...');
 
-  new EnhancedStdioMCPServer(config.geminiApiKey);
+  const server = new EnhancedStdioMCPServer(config.geminiApiKey);
+  if (config.promptsDir) {
+    await server.loadPromptLibrary(config.promptsDir);
+  }
+  const httpOptions = {
+    port: config.httpPort,
+    host: config.httpHost,
+    allowedOrigins: config.httpAllowedOrigins,
+    sessionIdleTimeoutMs: config.httpSessionTimeout
+  };
+  const transports: Record<typeof config.transport, () => Transport> = {
+    stdio: () => new StdioTransport(server),
+    http: () => new StreamableHttpTransport(server, httpOptions),
+    sse: () => new LegacySseTransport(server, httpOptions)
+  };
+  const transport = transports[config.transport]();
+
+  await transport.start();
+
+  // Plugins load once the transport is up; sessions that connect meanwhile get tools/list_changed
+  if (config.plugins.length > 0) {
+    await server.loadPlugins(config.plugins);
+  }
+  if (config.pluginsDir) {
+    await server.loadPluginDirectory(config.pluginsDir);
+  }
+
+  // The static model table serves requests until the catalogue has loaded
+  void server.refreshModels();
 
   logger.success('Gemini MCP Server started successfully!');
   logger.info('Server is ready to receive MCP requests');
-  logger.info('Listening on stdio interface...');
   logger.success('You can now use the server with Claude Desktop or other MCP clients');
 
   // Graceful shutdown handling
-  process.on('SIGINT', () => {
-    logger.info('Received SIGINT, shutting down gracefully...');
+  const shutdown = async (signal: string) => {
+    logger.info(`Received ${signal}, shutting down gracefully...`);
+    await transport.close();
+    server.close();
     rateLimiter.destroy();
     process.exit(0);
-  });
+  };
 
-  process.on('SIGTERM', () => {
-    logger.info('Received SIGTERM, shutting down gracefully...');
-    rateLimiter.destroy();
-    process.exit(0);
-  });
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
 } catch (error) {
   logger.error('Failed to start server:', error);
   process.exit(1);
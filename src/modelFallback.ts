@@ -0,0 +1,118 @@
+import { config } from './config/index.js';
+import { CircuitBreakerOptions, CircuitBreakerRegistry } from './utils/circuitBreaker.js';
+import { CircuitOpenError, ErrorHandler } from './utils/errors.js';
+import { logger as rootLogger } from './utils/logger.js';
+
+const logger = rootLogger.child('fallback');
+
+export const DEFAULT_FALLBACK_CHAIN = ['gemini-2.5-pro', 'gemini-2.5-flash', 'gemini-2.0-flash'];
+
+/**
+ * A model that was passed over, and why
+ */
+export interface SkippedModel {
+  model: string;
+  reason: string;
+}
+
+export interface FallbackResult<T> {
+  result: T;
+  /**
+   * The model that answered
+   */
+  model: string;
+  /**
+   * Models tried or skipped before it; empty unless a fallback was used
+   */
+  skipped: SkippedModel[];
+}
+
+export interface ModelFallbackOptions extends CircuitBreakerOptions {
+  /**
+   * Models in order of preference; a call for one of them may fall back to those after it
+   */
+  chain?: string[];
+}
+
+/**
+ * Guards each model with a circuit breaker and moves down the fallback chain
+ * when a model's circuit is open or a call to it fails with a transient
+ * error (after retries). Other errors, such as invalid arguments or a
+ * stream that broke off after sending text, are rethrown without falling
+ * back and leave the model's circuit as it was.
+ */
+export class ModelFallback {
+  private breakers: CircuitBreakerRegistry;
+  private chain: string[];
+
+  constructor(options: ModelFallbackOptions = {}) {
+    this.breakers = new CircuitBreakerRegistry(options);
+    this.chain = options.chain ?? DEFAULT_FALLBACK_CHAIN;
+  }
+
+  /**
+   * The model itself, followed by the models after it in the chain
+   */
+  candidatesFor(model: string): string[] {
+    const index = this.chain.indexOf(model);
+    return index === -1 ? [model] : this.chain.slice(index);
+  }
+
+  async call<T>(
+    model: string,
+    operation: (model: string) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<FallbackResult<T>> {
+    const skipped: SkippedModel[] = [];
+    let lastError: unknown;
+
+    for (const candidate of this.candidatesFor(model)) {
+      const breaker = this.breakers.get(candidate);
+      if (!breaker.tryAcquire()) {
+        skipped.push({ model: candidate, reason: 'circuit open after repeated failures' });
+        continue;
+      }
+
+      try {
+        const result = await operation(candidate);
+        breaker.recordSuccess();
+        if (skipped.length > 0) {
+          logger.warn(`Fell back from ${model} to ${candidate}`, { skipped });
+        }
+        return { result, model: candidate, skipped };
+      } catch (error) {
+        const classified = ErrorHandler.toMCPError(error);
+        // Cancellations and timeouts end the call without judging the model
+        if (signal?.aborted) {
+          breaker.release();
+          throw error;
+        }
+        // Not a sign the model is down, or too late to ask another model
+        if (!ErrorHandler.isRetryableError(classified)) {
+          breaker.release();
+          throw error;
+        }
+
+        breaker.recordFailure();
+        skipped.push({ model: candidate, reason: classified.message });
+        lastError = error;
+      }
+    }
+
+    if (lastError !== undefined) {
+      throw lastError;
+    }
+    throw new CircuitOpenError(model, this.breakers.get(model).retryInMs());
+  }
+
+  snapshot() {
+    return this.breakers.snapshot();
+  }
+}
+
+export const modelFallback = new ModelFallback({
+  chain: config.modelFallbackChain,
+  failureThreshold: config.circuitFailureThreshold,
+  resetTimeoutMs: config.circuitResetTimeout,
+  halfOpenMaxCalls: config.circuitHalfOpenMaxCalls
+});
@@ -0,0 +1,130 @@
+import { config } from './config/index.js';
+import { ModelCatalog, modelCatalog } from './models.js';
+import { ValidationError } from './utils/errors.js';
+
+/**
+ * Model value that asks the routing policy to pick a model
+ */
+export const AUTO_MODEL = 'auto';
+
+export const DEFAULT_MODEL_ALIASES: Record<string, string> = {
+  fast: 'gemini-2.5-flash',
+  smart: 'gemini-2.5-pro',
+  cheap: 'gemini-2.5-flash-lite',
+  vision: 'gemini-2.5-flash'
+};
+
+/**
+ * What the routing policy knows about a request
+ */
+export interface RoutingTraits {
+  promptTokens?: number;
+  maxTokens?: number;
+  grounding?: boolean;
+  jsonMode?: boolean;
+}
+
+export interface ResolvedModel {
+  model: string;
+  requested: string;
+  reason?: string;
+}
+
+export interface ModelRouterOptions {
+  /**
+   * Alias -> model name, on top of the default aliases
+   */
+  aliases?: Record<string, string>;
+  /**
+   * Models `auto` picks from, in order of preference (cheapest first)
+   */
+  candidates?: string[];
+}
+
+/**
+ * Rough token count for routing: about four characters per token. Cheaper
+ * than a `countTokens` round trip, and close enough to compare against
+ * context windows.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Resolves the `model` argument of a tool call: aliases map to a model in
+ * the catalogue, and `auto` picks the first routing candidate that fits the
+ * request. Anything else is already a concrete model name.
+ */
+export class ModelRouter {
+  private aliases: Map<string, string>;
+  private candidates: string[];
+
+  constructor(
+    private catalog: ModelCatalog,
+    options: ModelRouterOptions = {}
+  ) {
+    this.aliases = new Map(Object.entries({ ...DEFAULT_MODEL_ALIASES, ...options.aliases }));
+    this.candidates = options.candidates ?? [
+      'gemini-2.5-flash-lite',
+      'gemini-2.5-flash',
+      'gemini-2.5-pro'
+    ];
+  }
+
+  /**
+   * Model values besides concrete model names: the aliases and `auto`
+   */
+  names(): string[] {
+    return [...this.aliases.keys(), AUTO_MODEL];
+  }
+
+  getAliases(): Record<string, string> {
+    return Object.fromEntries(this.aliases);
+  }
+
+  resolve(requested: string, traits: RoutingTraits = {}): ResolvedModel {
+    if (requested === AUTO_MODEL) {
+      return { requested, ...this.route(traits) };
+    }
+
+    const target = this.aliases.get(requested);
+    if (target === undefined) {
+      return { model: requested, requested };
+    }
+    if (!this.catalog.has(target)) {
+      throw new ValidationError(`Model alias "${requested}" points to unknown model ${target}`);
+    }
+    return { model: target, requested, reason: `alias for ${target}` };
+  }
+
+  private route(traits: RoutingTraits): { model: string; reason: string } {
+    const tokens = (traits.promptTokens ?? 0) + (traits.maxTokens ?? 0);
+    const features = [
+      ...(traits.grounding ? ['grounding'] : []),
+      ...(traits.jsonMode ? ['json_mode'] : [])
+    ];
+
+    for (const candidate of this.candidates) {
+      const info = this.catalog.get(candidate);
+      if (
+        info &&
+        tokens <= info.contextWindow &&
+        features.every(feature => info.features.includes(feature))
+      ) {
+        const needs = [`~${tokens} tokens`, ...features].join(', ');
+        return { model: candidate, reason: `first routing candidate that fits ${needs}` };
+      }
+    }
+
+    throw new ValidationError('No routing candidate fits this request', {
+      tokens,
+      features,
+      candidates: this.candidates
+    });
+  }
+}
+
+export const modelRouter = new ModelRouter(modelCatalog, {
+  aliases: config.modelAliases,
+  candidates: config.modelRoutingCandidates
+});
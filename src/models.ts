@@ -0,0 +1,364 @@
+import { GoogleGenAI, Model } from '@google/genai';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { z } from 'zod';
+import { config } from './config/index.js';
+import { RetryOptions, withRetry } from './utils/errors.js';
+import { logger as rootLogger } from './utils/logger.js';
+import { withTimeout } from './utils/timeout.js';
+
+const logger = rootLogger.child('models');
+
+export interface ModelInfo {
+  description: string;
+  features: string[];
+  contextWindow: number;
+  thinking?: boolean;
+  displayName?: string;
+  inputTokenLimit?: number;
+  outputTokenLimit?: number;
+  supportedActions?: string[];
+}
+
+// Available Gemini models as of July 2025
+export const GEMINI_MODELS: Record<string, ModelInfo> = {
+  // Thinking models (2.5 series) - latest and most capable
+  'gemini-2.5-pro': {
+    description: 'Most capable thinking model, best for complex reasoning and coding',
+    features: ['thinking', 'function_calling', 'json_mode', 'grounding', 'system_instructions'],
+    contextWindow: 2000000, // 2M tokens
+    thinking: true
+  },
+  'gemini-2.5-flash': {
+    description: 'Fast thinking model with best price/performance ratio',
+    features: ['thinking', 'function_calling', 'json_mode', 'grounding', 'system_instructions'],
+    contextWindow: 1000000, // 1M tokens
+    thinking: true
+  },
+  'gemini-2.5-flash-lite': {
+    description: 'Ultra-fast, cost-efficient thinking model for high-throughput tasks',
+    features: ['thinking', 'function_calling', 'json_mode', 'system_instructions'],
+    contextWindow: 1000000,
+    thinking: true
+  },
+
+  // 2.0 series
+  'gemini-2.0-flash': {
+    description: 'Fast, efficient model with 1M context window',
+    features: ['function_calling', 'json_mode', 'grounding', 'system_instructions'],
+    contextWindow: 1000000
+  },
+  'gemini-2.0-flash-lite': {
+    description: 'Most cost-efficient model for simple tasks',
+    features: ['function_calling', 'json_mode', 'system_instructions'],
+    contextWindow: 1000000
+  },
+  'gemini-2.0-pro-experimental': {
+    description: 'Experimental model with 2M context, excellent for coding',
+    features: ['function_calling', 'json_mode', 'grounding', 'system_instructions'],
+    contextWindow: 2000000
+  },
+
+  // Legacy models (for compatibility)
+  'gemini-1.5-pro': {
+    description: 'Previous generation pro model',
+    features: ['function_calling', 'json_mode', 'system_instructions'],
+    contextWindow: 2000000
+  },
+  'gemini-1.5-flash': {
+    description: 'Previous generation fast model',
+    features: ['function_calling', 'json_mode', 'system_instructions'],
+    contextWindow: 1000000
+  }
+};
+
+/**
+ * What the catalogue keeps from a `models.list()` or `models.get()` entry
+ */
+const ApiModelSchema = z.object({
+  name: z.string(),
+  displayName: z.string().optional(),
+  description: z.string().optional(),
+  inputTokenLimit: z.number().optional(),
+  outputTokenLimit: z.number().optional(),
+  supportedActions: z.array(z.string()).optional()
+});
+
+const CacheFileSchema = z.object({
+  fetchedAt: z.number(),
+  models: z.array(ApiModelSchema)
+});
+
+export type ApiModel = z.infer<typeof ApiModelSchema>;
+
+type CacheFile = z.infer<typeof CacheFileSchema>;
+
+export type ModelSource = 'static' | 'cache' | 'api';
+
+export interface ModelCatalogOptions {
+  /**
+   * Where the API listing is cached between runs
+   */
+  cacheFile?: string;
+  /**
+   * How long a listing stays fresh; 0 disables the disk cache
+   */
+  ttlMs?: number;
+  /**
+   * Deadline for fetching the listing (0 for none)
+   */
+  timeoutMs?: number;
+  retry?: Pick<RetryOptions, 'maxAttempts' | 'baseDelay' | 'budgetMs'>;
+  now?: () => number;
+}
+
+/**
+ * The models this server offers: the static table above, merged with the
+ * token limits and supported methods the Gemini API reports. The API listing
+ * is cached on disk; without network access the last cached listing, or
+ * else the static table alone, is used.
+ */
+export class ModelCatalog {
+  private models = new Map<string, ModelInfo>(Object.entries(GEMINI_MODELS));
+  private source: ModelSource = 'static';
+  private fetchedAt?: number;
+  private refreshing?: Promise<void>;
+  private refreshTimer?: NodeJS.Timeout;
+  private listeners = new Set<() => void>();
+  private cacheFile?: string;
+  private ttlMs: number;
+  private timeoutMs: number;
+  private retry: RetryOptions;
+  private now: () => number;
+
+  constructor(options: ModelCatalogOptions = {}) {
+    this.cacheFile = options.cacheFile;
+    this.ttlMs = options.ttlMs ?? 24 * 60 * 60 * 1000;
+    this.timeoutMs = options.timeoutMs ?? 0;
+    this.retry = options.retry ?? {};
+    this.now = options.now ?? Date.now;
+  }
+
+  has(name: string): boolean {
+    return this.models.has(name);
+  }
+
+  get(name: string): ModelInfo | undefined {
+    return this.models.get(name);
+  }
+
+  names(): string[] {
+    return [...this.models.keys()];
+  }
+
+  all(): Record<string, ModelInfo> {
+    return Object.fromEntries(this.models);
+  }
+
+  /**
+   * Where the current model list came from, and when it was fetched
+   */
+  status(): { source: ModelSource; fetchedAt?: string; count: number } {
+    return {
+      source: this.source,
+      ...(this.fetchedAt !== undefined && { fetchedAt: new Date(this.fetchedAt).toISOString() }),
+      count: this.models.size
+    };
+  }
+
+  /**
+   * Called whenever a refresh changes the model list or any model's details
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Use the cached listing while it is fresh, otherwise ask the API. Never
+   * throws: on failure the current models are kept.
+   */
+  refresh(genAI: GoogleGenAI): Promise<void> {
+    this.refreshing ??= this.load(genAI).finally(() => {
+      this.refreshing = undefined;
+    });
+    return this.refreshing;
+  }
+
+  /**
+   * Refresh now and again whenever the listing goes stale
+   */
+  autoRefresh(genAI: GoogleGenAI): Promise<void> {
+    if (this.ttlMs > 0 && !this.refreshTimer) {
+      this.refreshTimer = setInterval(() => this.refresh(genAI), this.ttlMs);
+      this.refreshTimer.unref();
+    }
+    return this.refresh(genAI);
+  }
+
+  close(): void {
+    clearInterval(this.refreshTimer);
+    this.refreshTimer = undefined;
+  }
+
+  private async load(genAI: GoogleGenAI): Promise<void> {
+    const cached = await this.readCache();
+    if (cached && this.now() - cached.fetchedAt < this.ttlMs) {
+      this.apply(cached, 'cache');
+      return;
+    }
+
+    let listing: CacheFile;
+    try {
+      const models = await withTimeout(
+        signal => withRetry(() => fetchModels(genAI, signal), { ...this.retry, signal }),
+        this.timeoutMs,
+        { label: 'Listing models' }
+      );
+      listing = { fetchedAt: this.now(), models };
+    } catch (error) {
+      logger.warn(`Cannot list models; using the ${cached ? 'cached listing' : 'static table'}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      if (cached) {
+        this.apply(cached, 'cache');
+      }
+      return;
+    }
+
+    this.apply(listing, 'api');
+    await this.writeCache(listing);
+  }
+
+  private apply(listing: CacheFile, source: ModelSource): void {
+    const models = new Map<string, ModelInfo>(Object.entries(GEMINI_MODELS));
+    for (const model of listing.models) {
+      // Only Gemini models that generate content; embedding and Imagen models have their own tools
+      if (model.name.startsWith('gemini-') && model.supportedActions?.includes('generateContent')) {
+        models.set(model.name, mergeModel(models.get(model.name), model));
+      }
+    }
+
+    const changed = JSON.stringify(Object.fromEntries(models)) !== JSON.stringify(this.all());
+    this.models = models;
+    this.source = source;
+    this.fetchedAt = listing.fetchedAt;
+    logger.info(`Model catalogue loaded from ${source}`, { count: models.size });
+
+    if (changed) {
+      this.listeners.forEach(listener => listener());
+    }
+  }
+
+  private async readCache(): Promise<CacheFile | undefined> {
+    if (!this.cacheFile || this.ttlMs <= 0) {
+      return undefined;
+    }
+
+    try {
+      return CacheFileSchema.parse(JSON.parse(await readFile(this.cacheFile, 'utf8')));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Ignoring unreadable model cache ${this.cacheFile}`, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+      return undefined;
+    }
+  }
+
+  private async writeCache(listing: CacheFile): Promise<void> {
+    if (!this.cacheFile || this.ttlMs <= 0) {
+      return;
+    }
+
+    try {
+      await mkdir(dirname(this.cacheFile), { recursive: true });
+      await writeFile(this.cacheFile, JSON.stringify(listing, null, 2));
+    } catch (error) {
+      logger.warn(`Cannot write model cache ${this.cacheFile}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
+
+/**
+ * List every model, then look up the static models the listing left out
+ * (previews and aliases are not always listed)
+ */
+async function fetchModels(genAI: GoogleGenAI, abortSignal: AbortSignal): Promise<ApiModel[]> {
+  const models: ApiModel[] = [];
+  const pager = await genAI.models.list({ config: { pageSize: 100, abortSignal } });
+  for await (const model of pager) {
+    if (model.name) {
+      models.push(toApiModel(model.name, model));
+    }
+  }
+
+  const listed = new Set(models.map(model => model.name));
+  const lookups = await Promise.allSettled(
+    Object.keys(GEMINI_MODELS)
+      .filter(name => !listed.has(name))
+      .map(name => genAI.models.get({ model: name, config: { abortSignal } }))
+  );
+  for (const lookup of lookups) {
+    if (lookup.status === 'fulfilled' && lookup.value.name) {
+      models.push(toApiModel(lookup.value.name, lookup.value));
+    }
+  }
+
+  return models;
+}
+
+function toApiModel(name: string, model: Model): ApiModel {
+  return {
+    name: name.replace(/^models\//, ''),
+    ...(model.displayName && { displayName: model.displayName }),
+    ...(model.description && { description: model.description }),
+    ...(model.inputTokenLimit && { inputTokenLimit: model.inputTokenLimit }),
+    ...(model.outputTokenLimit && { outputTokenLimit: model.outputTokenLimit }),
+    ...(model.supportedActions && { supportedActions: model.supportedActions })
+  };
+}
+
+/**
+ * The static entry a listed model is a version of, e.g. gemini-2.5-flash for
+ * gemini-2.5-flash-preview-05-20: the longest static name it extends
+ */
+function familyOf(name: string): ModelInfo | undefined {
+  const family = Object.keys(GEMINI_MODELS)
+    .filter(known => name.startsWith(`${known}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return family ? GEMINI_MODELS[family] : undefined;
+}
+
+/**
+ * The static entry's curated description and features win; the API's limits
+ * and methods are added on top. Models only the API lists take their features
+ * from the family they belong to, if any.
+ */
+function mergeModel(known: ModelInfo | undefined, model: ApiModel): ModelInfo {
+  const family = known ?? familyOf(model.name);
+  return {
+    description: known?.description ?? model.description ?? model.displayName ?? model.name,
+    features: family?.features ?? [],
+    contextWindow: model.inputTokenLimit ?? known?.contextWindow ?? 0,
+    ...(family?.thinking && { thinking: true }),
+    ...(model.displayName && { displayName: model.displayName }),
+    ...(model.inputTokenLimit && { inputTokenLimit: model.inputTokenLimit }),
+    ...(model.outputTokenLimit && { outputTokenLimit: model.outputTokenLimit }),
+    ...(model.supportedActions && { supportedActions: model.supportedActions })
+  };
+}
+
+export const modelCatalog = new ModelCatalog({
+  cacheFile: config.modelCacheFile,
+  ttlMs: config.modelCacheTtl,
+  timeoutMs: config.requestTimeout,
+  retry: {
+    maxAttempts: config.retryMaxAttempts,
+    baseDelay: config.retryBaseDelay,
+    budgetMs: config.retryBudget
+  }
+});
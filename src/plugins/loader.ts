@@ -0,0 +1,311 @@
+import { GoogleGenAI } from '@google/genai';
+import { FSWatcher, watch } from 'fs';
+import { readdir, stat } from 'fs/promises';
+import { extname, isAbsolute, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { PromptRegistry } from '../prompts/registry.js';
+import { Tool, ToolRegistry } from '../tools/registry.js';
+import { PromptDefinition } from '../types.js';
+import { ConversationStore } from '../utils/conversationStore.js';
+import { Logger, logger as rootLogger } from '../utils/logger.js';
+import { RateLimiter, rateLimiter } from '../utils/rateLimiter.js';
+
+const logger = rootLogger.child('plugins');
+
+const NAME_PATTERN = /^[\w-]+$/;
+const PLUGIN_EXTENSIONS = ['.js', '.mjs', '.cjs'];
+const RELOAD_DEBOUNCE_MS = 250;
+
+/**
+ * What a plugin's `register` function receives: the server's shared services
+ * and hooks for adding tools and prompts
+ */
+export interface PluginContext {
+  genAI: GoogleGenAI;
+  logger: Logger;
+  rateLimiter: RateLimiter;
+  conversations: ConversationStore;
+  registerTool(tool: Tool): void;
+  registerPrompt(prompt: PromptDefinition): void;
+}
+
+/**
+ * The default export of a plugin module (a bare `register` function also works)
+ */
+export interface GeminiPlugin {
+  name: string;
+  register(context: PluginContext): void | Promise<void>;
+}
+
+export interface LoadedPlugin {
+  name: string;
+  specifier: string;
+  tools: string[];
+  prompts: string[];
+}
+
+export interface PluginServices {
+  genAI: GoogleGenAI;
+  conversations: ConversationStore;
+  tools: ToolRegistry;
+  prompts: PromptRegistry;
+}
+
+export interface PluginLoaderOptions {
+  /**
+   * Directory that relative plugin paths are resolved against
+   */
+  baseDir?: string;
+  importModule?: (url: string) => Promise<Record<string, unknown>>;
+}
+
+/**
+ * Loads plugins from npm packages or local `.js` files, and keeps a plugin
+ * directory in sync at runtime. A plugin that fails to load is reported and
+ * skipped; it never takes the server down.
+ */
+export class PluginLoader {
+  private plugins = new Map<string, LoadedPlugin>(); // specifier -> plugin
+  private errors = new Map<string, string>(); // specifier -> error message
+  private versions = new Map<string, number>(); // directory plugin file -> mtime it was loaded at
+  private watcher?: FSWatcher;
+  private reloadTimer?: NodeJS.Timeout;
+  private baseDir: string;
+  private importModule: (url: string) => Promise<Record<string, unknown>>;
+
+  constructor(
+    private services: PluginServices,
+    options: PluginLoaderOptions = {}
+  ) {
+    this.baseDir = options.baseDir ?? process.cwd();
+    this.importModule = options.importModule ?? (url => import(url));
+  }
+
+  /**
+   * Load each plugin in turn; returns the ones that loaded
+   */
+  async loadAll(specifiers: string[]): Promise<LoadedPlugin[]> {
+    const loaded: LoadedPlugin[] = [];
+
+    for (const specifier of specifiers) {
+      const plugin = await this.tryLoad(specifier);
+      if (plugin) {
+        loaded.push(plugin);
+      }
+    }
+
+    return loaded;
+  }
+
+  /**
+   * Bring the plugins loaded from a directory in line with the `.js` files in
+   * it: load new files, reload changed ones and unload removed ones. Returns
+   * the plugins that were unloaded or loaded.
+   */
+  async loadDirectory(directory: string): Promise<LoadedPlugin[]> {
+    const root = resolve(this.baseDir, directory);
+    const files = new Map<string, number>(); // plugin file -> mtime
+    try {
+      for (const file of (await readdir(root)).sort()) {
+        if (PLUGIN_EXTENSIONS.includes(extname(file).toLowerCase())) {
+          const path = join(root, file);
+          files.set(path, (await stat(path)).mtimeMs);
+        }
+      }
+    } catch (error) {
+      logger.warn(`Cannot read plugin directory ${directory}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    const changed: LoadedPlugin[] = [];
+
+    // Unload first, so that a changed plugin can register its names again
+    for (const [path, version] of this.versions) {
+      if (files.get(path) !== version) {
+        this.versions.delete(path);
+        this.errors.delete(path);
+        const plugin = this.unload(path);
+        if (plugin) {
+          changed.push(plugin);
+        }
+      }
+    }
+
+    for (const [path, version] of files) {
+      if (!this.versions.has(path)) {
+        this.versions.set(path, version);
+        const plugin = await this.tryLoad(path, version);
+        if (plugin) {
+          changed.push(plugin);
+        }
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Reload the directory on changes, then pass the plugins that were
+   * unloaded or loaded to the change callback
+   */
+  watchDirectory(directory: string, onChange: (changed: LoadedPlugin[]) => void): void {
+    const reload = () => {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = setTimeout(() => {
+        this.loadDirectory(directory)
+          .then(onChange)
+          .catch(error => logger.error('Failed to reload plugin directory:', error));
+      }, RELOAD_DEBOUNCE_MS);
+    };
+
+    try {
+      this.watcher = watch(resolve(this.baseDir, directory), { persistent: false }, reload);
+      this.watcher.on('error', error => {
+        logger.error(`Plugin directory watcher failed: ${error.message}`);
+      });
+    } catch (error) {
+      logger.warn(`Cannot watch plugin directory ${directory}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  close(): void {
+    clearTimeout(this.reloadTimer);
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  /**
+   * Load one plugin. Its tools and prompts are only registered once its
+   * `register` function has finished and none of their names are taken.
+   * A `version` imports a changed file afresh instead of from the module cache.
+   */
+  async load(specifier: string, version?: number): Promise<LoadedPlugin> {
+    if (this.plugins.has(specifier)) {
+      throw new Error(`Plugin ${specifier} is already loaded`);
+    }
+
+    const url = this.resolveSpecifier(specifier);
+    const module = await this.importModule(version === undefined ? url : `${url}?v=${version}`);
+    const plugin = toPlugin(module.default ?? module.plugin, specifier);
+
+    const tools: Tool[] = [];
+    const prompts: PromptDefinition[] = [];
+    await plugin.register({
+      genAI: this.services.genAI,
+      logger: rootLogger.child(`plugin.${plugin.name}`),
+      rateLimiter,
+      conversations: this.services.conversations,
+      registerTool: tool => tools.push(tool),
+      registerPrompt: prompt => prompts.push(prompt)
+    });
+
+    tools.forEach(checkTool);
+    checkNames(
+      'Tool',
+      tools.map(tool => tool.name),
+      name => this.services.tools.has(name)
+    );
+    checkNames(
+      'Prompt',
+      prompts.map(prompt => prompt.name),
+      name => this.services.prompts.has(name)
+    );
+
+    tools.forEach(tool => this.services.tools.register(tool));
+    prompts.forEach(prompt => this.services.prompts.register(prompt));
+
+    const loaded: LoadedPlugin = {
+      name: plugin.name,
+      specifier,
+      tools: tools.map(tool => tool.name),
+      prompts: prompts.map(prompt => prompt.name)
+    };
+    this.plugins.set(specifier, loaded);
+    this.errors.delete(specifier);
+    logger.info(`Loaded plugin ${plugin.name}`, { tools: loaded.tools, prompts: loaded.prompts });
+    return loaded;
+  }
+
+  /**
+   * Remove a plugin's tools and prompts; returns the plugin, if it was loaded
+   */
+  unload(specifier: string): LoadedPlugin | undefined {
+    const plugin = this.plugins.get(specifier);
+    if (!plugin) {
+      return undefined;
+    }
+
+    plugin.tools.forEach(name => this.services.tools.unregister(name));
+    plugin.prompts.forEach(name => this.services.prompts.unregister(name));
+    this.plugins.delete(specifier);
+    logger.info(`Unloaded plugin ${plugin.name}`);
+    return plugin;
+  }
+
+  list(): LoadedPlugin[] {
+    return [...this.plugins.values()];
+  }
+
+  /**
+   * Plugins that failed to load, with the reason
+   */
+  getErrors(): Record<string, string> {
+    return Object.fromEntries(this.errors);
+  }
+
+  private async tryLoad(specifier: string, version?: number): Promise<LoadedPlugin | undefined> {
+    try {
+      return await this.load(specifier, version);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.errors.set(specifier, message);
+      logger.error(`Skipping plugin ${specifier}: ${message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Paths load from disk relative to the base directory; anything else is an npm package
+   */
+  private resolveSpecifier(specifier: string): string {
+    const isPath =
+      specifier.startsWith('.') || isAbsolute(specifier) || /\.(c|m)?js$/.test(specifier);
+    return isPath ? pathToFileURL(resolve(this.baseDir, specifier)).href : specifier;
+  }
+}
+
+function toPlugin(exported: unknown, specifier: string): GeminiPlugin {
+  if (typeof exported === 'function') {
+    return { name: specifier, register: exported as GeminiPlugin['register'] };
+  }
+
+  const candidate = exported as Partial<GeminiPlugin> | undefined;
+  if (typeof candidate?.register !== 'function') {
+    throw new Error('Plugin must export a register function or an object with one');
+  }
+  return { name: candidate.name ?? specifier, register: candidate.register.bind(candidate) };
+}
+
+function checkTool(tool: Tool): void {
+  if (typeof tool?.name !== 'string' || !NAME_PATTERN.test(tool.name)) {
+    throw new Error(`Invalid tool name: ${tool?.name}`);
+  }
+  // Plugins may bundle their own copy of zod, so check the shape rather than the class
+  if (typeof tool.inputSchema?.safeParse !== 'function') {
+    throw new Error(`Tool ${tool.name} needs a Zod inputSchema`);
+  }
+  if (typeof tool.handler !== 'function') {
+    throw new Error(`Tool ${tool.name} needs a handler`);
+  }
+}
+
+function checkNames(kind: string, names: string[], exists: (name: string) => boolean): void {
+  names.forEach((name, index) => {
+    if (exists(name) || names.indexOf(name) !== index) {
+      throw new Error(`${kind} name "${name}" conflicts with an existing ${kind.toLowerCase()}`);
+    }
+  });
+}
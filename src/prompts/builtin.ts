@@ -0,0 +1,143 @@
+import { PromptDefinition, PromptMessage } from '../types.js';
+
+const EXPLANATION_LEVELS = ['beginner', 'intermediate', 'expert'];
+
+const PROGRAMMING_LANGUAGES = [
+  'Bash',
+  'C',
+  'C#',
+  'C++',
+  'Dart',
+  'Elixir',
+  'Go',
+  'Haskell',
+  'Java',
+  'JavaScript',
+  'Kotlin',
+  'Lua',
+  'PHP',
+  'Python',
+  'Ruby',
+  'Rust',
+  'Scala',
+  'SQL',
+  'Swift',
+  'TypeScript'
+];
+
+const LEVEL_GUIDANCE: Record<string, string> = {
+  beginner:
+    'Assume no prior knowledge. Avoid jargon, define every term you use and lean on everyday analogies.',
+  intermediate:
+    'Assume familiarity with the fundamentals. Focus on how the pieces fit together and why.',
+  expert:
+    'Assume deep domain knowledge. Be precise, cover edge cases, trade-offs and current research.'
+};
+
+function userMessage(text: string): PromptMessage[] {
+  return [{ role: 'user', content: { type: 'text', text } }];
+}
+
+/**
+ * Prompts shipped with the server
+ */
+export const BUILTIN_PROMPTS: PromptDefinition[] = [
+  {
+    name: 'code_review',
+    description: 'Comprehensive code review with Gemini 2.5 Pro',
+    arguments: [
+      {
+        name: 'code',
+        description: 'Code to review',
+        required: true
+      },
+      {
+        name: 'language',
+        description: 'Programming language',
+        required: false,
+        suggestions: PROGRAMMING_LANGUAGES
+      }
+    ],
+    render: ({ code, language }) => {
+      const subject = language ? `the following ${language} code` : 'the following code';
+      const fence = language ? language.toLowerCase() : '';
+      return userMessage(`Please perform a thorough code review of ${subject}.
+
+Cover:
+1. Correctness: bugs, logic errors and unhandled edge cases
+2. Security: injection, unsafe input handling, secrets and other vulnerabilities
+3. Performance: unnecessary work, complexity and resource usage
+4. Readability and maintainability: naming, structure and duplication
+5. ${language ? `Idiomatic ${language}` : 'Language idioms'} and best practices
+
+For each finding, give the severity (critical/major/minor), the location, an explanation and a suggested fix.
+Finish with a short overall assessment.
+
+\`\`\`${fence}
+${code}
+\`\`\``);
+    }
+  },
+  {
+    name: 'explain_with_thinking',
+    description: 'Deep explanation using Gemini 2.5 thinking capabilities',
+    arguments: [
+      {
+        name: 'topic',
+        description: 'Topic to explain',
+        required: true
+      },
+      {
+        name: 'level',
+        description: 'Explanation level (beginner/intermediate/expert)',
+        required: false,
+        values: EXPLANATION_LEVELS
+      }
+    ],
+    render: ({ topic, level = 'intermediate' }) =>
+      userMessage(`Explain "${topic}" for a ${level} audience.
+
+${LEVEL_GUIDANCE[level]}
+
+Think through the topic step by step before answering. Then structure the explanation as:
+1. A one-paragraph summary
+2. The core concepts, building from the simplest
+3. A worked example
+4. Common misconceptions
+5. Where to go next`)
+  },
+  {
+    name: 'creative_writing',
+    description: 'Creative writing with style control',
+    arguments: [
+      {
+        name: 'prompt',
+        description: 'Writing prompt',
+        required: true
+      },
+      {
+        name: 'style',
+        description: 'Writing style',
+        required: false
+      },
+      {
+        name: 'length',
+        description: 'Desired length',
+        required: false
+      }
+    ],
+    render: ({ prompt, style, length }) => {
+      const constraints = [
+        style ? `- Style: ${style}` : '- Style: your choice, but keep it consistent',
+        length ? `- Length: ${length}` : '- Length: whatever serves the piece best'
+      ];
+      return userMessage(`Write an original piece based on this prompt:
+
+${prompt}
+
+${constraints.join('\n')}
+
+Give it a title, show rather than tell, and end with a satisfying conclusion.`);
+    }
+  }
+];
@@ -0,0 +1,199 @@
+import { FSWatcher, watch } from 'fs';
+import { readdir, readFile } from 'fs/promises';
+import { extname, join } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { PromptDefinition } from '../types.js';
+import { logger as rootLogger } from '../utils/logger.js';
+import { PromptRegistry } from './registry.js';
+import { compileTemplate } from './template.js';
+
+const logger = rootLogger.child('prompts');
+
+const PROMPT_EXTENSIONS = ['.md', '.markdown', '.yaml', '.yml'];
+const RELOAD_DEBOUNCE_MS = 250;
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/;
+
+const PromptFileSchema = z.object({
+  name: z.string().regex(/^[\w-]+$/, 'Must contain only letters, digits, "_" and "-"'),
+  description: z.string().optional(),
+  arguments: z
+    .array(
+      z.object({
+        name: z.string().regex(/^[A-Za-z_][\w-]*$/, 'Must be a valid template variable name'),
+        description: z.string().optional(),
+        required: z.boolean().optional(),
+        values: z.array(z.string()).optional()
+      })
+    )
+    .default([]),
+  template: z.string().min(1, 'Template body is empty'),
+  model: z.string().optional(),
+  temperature: z.number().min(0).max(2).optional()
+});
+
+/**
+ * Loads user-defined prompts from Markdown (YAML frontmatter + template body)
+ * or YAML files in a directory and keeps them in sync with the registry.
+ * A broken file is reported and skipped; it never takes the server down.
+ */
+export class PromptLibrary {
+  private loaded = new Map<string, string>(); // prompt name -> file
+  private errors = new Map<string, string>(); // file -> error message
+  private watcher?: FSWatcher;
+  private reloadTimer?: NodeJS.Timeout;
+
+  constructor(
+    private directory: string,
+    private registry: PromptRegistry,
+    private onChange: () => void = () => undefined
+  ) {}
+
+  /**
+   * (Re)load every prompt file in the directory. Resolves with whether the
+   * prompts as listed by `prompts/list` changed.
+   */
+  async load(): Promise<boolean> {
+    const listedBefore = JSON.stringify(this.registry.list());
+
+    let files: string[];
+    try {
+      files = (await readdir(this.directory))
+        .filter(file => PROMPT_EXTENSIONS.includes(extname(file).toLowerCase()))
+        .sort();
+    } catch (error) {
+      logger.warn(`Cannot read prompt directory ${this.directory}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      files = [];
+    }
+
+    const previous = new Map(this.loaded);
+    this.loaded.clear();
+    this.errors.clear();
+
+    for (const file of files) {
+      try {
+        const prompt = await this.loadFile(file);
+        const owner = this.loaded.get(prompt.name);
+        if (owner) {
+          throw new Error(`Prompt name "${prompt.name}" is already defined in ${owner}`);
+        }
+        if (this.registry.has(prompt.name) && !previous.has(prompt.name)) {
+          throw new Error(`Prompt name "${prompt.name}" conflicts with an existing prompt`);
+        }
+
+        this.registry.register(prompt);
+        this.loaded.set(prompt.name, file);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.errors.set(file, message);
+        logger.error(`Failed to load prompt file ${file}: ${message}`);
+      }
+    }
+
+    for (const name of previous.keys()) {
+      if (!this.loaded.has(name)) {
+        this.registry.unregister(name);
+      }
+    }
+
+    logger.info(`Loaded ${this.loaded.size} prompt(s) from ${this.directory}`, {
+      errors: this.errors.size
+    });
+    return JSON.stringify(this.registry.list()) !== listedBefore;
+  }
+
+  /**
+   * Reload on changes to the directory, and invoke the change callback when
+   * the listed prompts changed
+   */
+  watch(): void {
+    try {
+      this.watcher = watch(this.directory, { persistent: false }, () => this.scheduleReload());
+      this.watcher.on('error', error => {
+        logger.error(`Prompt directory watcher failed: ${error.message}`);
+      });
+    } catch (error) {
+      logger.warn(`Cannot watch prompt directory ${this.directory}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  close(): void {
+    clearTimeout(this.reloadTimer);
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  /**
+   * Per-file load errors from the last reload
+   */
+  getErrors(): Record<string, string> {
+    return Object.fromEntries(this.errors);
+  }
+
+  private scheduleReload(): void {
+    clearTimeout(this.reloadTimer);
+    this.reloadTimer = setTimeout(() => {
+      this.load()
+        .then(changed => {
+          if (changed) {
+            this.onChange();
+          }
+        })
+        .catch(error => logger.error('Failed to reload prompt library:', error));
+    }, RELOAD_DEBOUNCE_MS);
+  }
+
+  private async loadFile(file: string): Promise<PromptDefinition> {
+    const source = await readFile(join(this.directory, file), 'utf8');
+    const raw = this.parseFile(file, source);
+
+    const parsed = PromptFileSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new Error(
+        parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')
+      );
+    }
+
+    const definition = parsed.data;
+    const template = compileTemplate(definition.template);
+    const declared = definition.arguments.map(arg => arg.name);
+    const undeclared = template.variables.filter(name => !declared.includes(name));
+    if (undeclared.length > 0) {
+      throw new Error(`Template uses undeclared argument(s): ${undeclared.join(', ')}`);
+    }
+
+    return {
+      name: definition.name,
+      description: definition.description,
+      arguments: definition.arguments,
+      ...((definition.model || definition.temperature !== undefined) && {
+        defaults: { model: definition.model, temperature: definition.temperature }
+      }),
+      render: args => [
+        { role: 'user', content: { type: 'text', text: template.render(args).trim() } }
+      ]
+    };
+  }
+
+  private parseFile(file: string, source: string): unknown {
+    const extension = extname(file).toLowerCase();
+    if (extension === '.yaml' || extension === '.yml') {
+      return parseYaml(source);
+    }
+
+    const match = source.match(FRONTMATTER);
+    if (!match) {
+      throw new Error('Markdown prompt files need a YAML frontmatter block delimited by ---');
+    }
+
+    const frontmatter = parseYaml(match[1]) ?? {};
+    if (typeof frontmatter !== 'object' || Array.isArray(frontmatter)) {
+      throw new Error('Frontmatter must be a YAML mapping');
+    }
+    return { ...frontmatter, template: match[2] };
+  }
+}
@@ -0,0 +1,114 @@
+import { GetPromptResult, PromptArgument, PromptDefinition } from '../types.js';
+import { ValidationError } from '../utils/errors.js';
+
+/**
+ * Holds the prompts served through `prompts/list` and `prompts/get`
+ */
+export class PromptRegistry {
+  private prompts = new Map<string, PromptDefinition>();
+
+  constructor(prompts: PromptDefinition[] = []) {
+    prompts.forEach(prompt => this.register(prompt));
+  }
+
+  register(prompt: PromptDefinition): void {
+    this.prompts.set(prompt.name, prompt);
+  }
+
+  unregister(name: string): boolean {
+    return this.prompts.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.prompts.has(name);
+  }
+
+  /**
+   * Look up a single argument declaration (undefined if the prompt does not declare it)
+   */
+  getArgument(promptName: string, argumentName: string) {
+    const prompt = this.prompts.get(promptName);
+    if (!prompt) {
+      throw new ValidationError(`Unknown prompt: ${promptName}`);
+    }
+    return prompt.arguments?.find(argument => argument.name === argumentName);
+  }
+
+  /**
+   * Prompt listing in the shape `prompts/list` returns
+   */
+  list(): Array<{ name: string; description?: string; arguments?: PromptArgument[] }> {
+    return [...this.prompts.values()].map(prompt => ({
+      name: prompt.name,
+      ...(prompt.description && { description: prompt.description }),
+      ...(prompt.arguments && {
+        arguments: prompt.arguments.map(({ name, description, required }) => ({
+          name,
+          ...(description && { description }),
+          required: required ?? false
+        }))
+      })
+    }));
+  }
+
+  /**
+   * Validate arguments against the prompt's declaration and render its messages
+   */
+  get(name: unknown, args: unknown = {}): GetPromptResult {
+    if (typeof name !== 'string' || !name) {
+      throw new ValidationError('Missing required parameter: name');
+    }
+
+    const prompt = this.prompts.get(name);
+    if (!prompt) {
+      throw new ValidationError(`Unknown prompt: ${name}`);
+    }
+
+    if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+      throw new ValidationError('Prompt arguments must be an object');
+    }
+
+    const values = args as Record<string, unknown>;
+    const declared = prompt.arguments ?? [];
+    const rendered: Record<string, string> = {};
+
+    for (const argument of declared) {
+      const value = values[argument.name];
+
+      if (value === undefined || value === null || value === '') {
+        if (argument.required) {
+          throw new ValidationError(`Missing required argument: ${argument.name}`, {
+            argument: argument.name
+          });
+        }
+        continue;
+      }
+
+      if (typeof value !== 'string') {
+        throw new ValidationError(`Argument ${argument.name} must be a string`, {
+          argument: argument.name
+        });
+      }
+
+      if (argument.values && !argument.values.includes(value)) {
+        throw new ValidationError(
+          `Invalid value for argument ${argument.name}: expected one of ${argument.values.join(', ')}`,
+          { argument: argument.name, allowed: argument.values }
+        );
+      }
+
+      rendered[argument.name] = value;
+    }
+
+    const unknown = Object.keys(values).filter(key => !declared.some(arg => arg.name === key));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown argument: ${unknown.join(', ')}`, { arguments: unknown });
+    }
+
+    return {
+      ...(prompt.description && { description: prompt.description }),
+      messages: prompt.render(rendered),
+      ...(prompt.defaults && { _meta: { ...prompt.defaults } })
+    };
+  }
+}
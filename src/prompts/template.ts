@@ -0,0 +1,102 @@
+/**
+ * Minimal Mustache-style templates for prompt files:
+ *   {{name}}              value of the argument (empty if missing)
+ *   {{#name}}...{{/name}} block rendered only when the argument is set
+ *   {{^name}}...{{/name}} block rendered only when the argument is missing
+ */
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; name: string }
+  | { type: 'section'; name: string; inverted: boolean; children: TemplateNode[] };
+
+export interface CompiledTemplate {
+  variables: string[];
+  render(args: Record<string, string>): string;
+}
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+const TAG = /\{\{\s*([#^/]?)\s*([A-Za-z_][\w-]*)?\s*\}\}/g;
+
+/**
+ * Parse a template, throwing TemplateError on malformed tags or unbalanced sections
+ */
+export function compileTemplate(source: string): CompiledTemplate {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ name: string; children: TemplateNode[] }> = [];
+  const variables = new Set<string>();
+  let current = root;
+  let lastIndex = 0;
+
+  for (const match of source.matchAll(TAG)) {
+    const [tag, sigil, name] = match;
+    const index = match.index ?? 0;
+    const line = source.slice(0, index).split('\n').length;
+
+    if (index > lastIndex) {
+      current.push({ type: 'text', text: source.slice(lastIndex, index) });
+    }
+    lastIndex = index + tag.length;
+
+    if (!name) {
+      throw new TemplateError(`Empty tag ${tag} on line ${line}`);
+    }
+    variables.add(name);
+
+    if (sigil === '#' || sigil === '^') {
+      const section: TemplateNode = {
+        type: 'section',
+        name,
+        inverted: sigil === '^',
+        children: []
+      };
+      current.push(section);
+      stack.push({ name, children: current });
+      current = section.children;
+    } else if (sigil === '/') {
+      const open = stack.pop();
+      if (!open || open.name !== name) {
+        throw new TemplateError(
+          `Unexpected closing tag {{/${name}}} on line ${line}${open ? ` (expected {{/${open.name}}})` : ''}`
+        );
+      }
+      current = open.children;
+    } else {
+      current.push({ type: 'variable', name });
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new TemplateError(`Unclosed section {{#${stack[stack.length - 1].name}}}`);
+  }
+
+  if (lastIndex < source.length) {
+    current.push({ type: 'text', text: source.slice(lastIndex) });
+  }
+
+  return {
+    variables: [...variables],
+    render: args => renderNodes(root, args)
+  };
+}
+
+function renderNodes(nodes: TemplateNode[], args: Record<string, string>): string {
+  return nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+          return node.text;
+        case 'variable':
+          return args[node.name] ?? '';
+        case 'section':
+          return !!args[node.name] !== node.inverted ? renderNodes(node.children, args) : '';
+      }
+    })
+    .join('');
+}
@@ -0,0 +1,77 @@
+import { ProtocolFeatures } from './types.js';
+import { ValidationError } from './utils/errors.js';
+
+/**
+ * MCP protocol versions this server speaks, newest first
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'] as const;
+
+export type ProtocolVersion = (typeof SUPPORTED_PROTOCOL_VERSIONS)[number];
+
+export const LATEST_PROTOCOL_VERSION: ProtocolVersion = SUPPORTED_PROTOCOL_VERSIONS[0];
+export const OLDEST_PROTOCOL_VERSION: ProtocolVersion =
+  SUPPORTED_PROTOCOL_VERSIONS[SUPPORTED_PROTOCOL_VERSIONS.length - 1];
+
+/**
+ * Accept the client's requested protocol version if it is supported
+ */
+export function negotiateProtocolVersion(requested: unknown): ProtocolVersion {
+  if (typeof requested !== 'string' || !requested) {
+    throw new ValidationError('Missing required parameter: protocolVersion');
+  }
+
+  if (!SUPPORTED_PROTOCOL_VERSIONS.includes(requested as ProtocolVersion)) {
+    throw new ValidationError(`Unsupported protocol version: ${requested}`, {
+      supported: [...SUPPORTED_PROTOCOL_VERSIONS],
+      requested
+    });
+  }
+
+  return requested as ProtocolVersion;
+}
+
+/**
+ * Work out which optional features a session may use.
+ * Versions are ISO dates, so they compare lexically.
+ */
+export function getProtocolFeatures(
+  version: ProtocolVersion,
+  clientCapabilities: Record<string, any> = {}
+): ProtocolFeatures {
+  return {
+    toolAnnotations: version >= '2025-03-26',
+    structuredToolOutput: version >= '2025-06-18',
+    elicitation: version >= '2025-06-18' && !!clientCapabilities.elicitation
+  };
+}
+
+/**
+ * Strip tool definition fields the client's protocol version does not know
+ */
+export function adaptToolDefinition<T extends Record<string, any>>(
+  tool: T,
+  features: ProtocolFeatures
+): T {
+  const { annotations, outputSchema, ...rest } = tool;
+  return {
+    ...rest,
+    ...(features.toolAnnotations && annotations && { annotations }),
+    ...(features.structuredToolOutput && outputSchema && { outputSchema })
+  } as unknown as T;
+}
+
+/**
+ * Strip tool result fields the client's protocol version does not know
+ */
+export function adaptToolResult<T extends Record<string, any>>(
+  result: T,
+  features: ProtocolFeatures
+): T {
+  if (features.structuredToolOutput || !('structuredContent' in result)) {
+    return result;
+  }
+
+  const copy: Record<string, any> = { ...result };
+  delete copy.structuredContent;
+  return copy as T;
+}
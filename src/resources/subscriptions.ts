@@ -0,0 +1,54 @@
+import { ValidationError } from '../utils/errors.js';
+
+/**
+ * Tracks which resource URIs each session has subscribed to
+ */
+export class ResourceSubscriptions {
+  private sessions = new Map<string, Set<string>>();
+
+  subscribe(sessionId: string, uri: string): void {
+    let uris = this.sessions.get(sessionId);
+    if (!uris) {
+      uris = new Set();
+      this.sessions.set(sessionId, uris);
+    }
+    uris.add(uri);
+  }
+
+  /**
+   * Stop updates for a URI. Unknown URIs are fine, since the resource may be
+   * gone since subscribing, but the URI itself is required.
+   */
+  unsubscribe(sessionId: string, uri: unknown): boolean {
+    if (typeof uri !== 'string' || !uri) {
+      throw new ValidationError('Missing required parameter: uri');
+    }
+
+    const uris = this.sessions.get(sessionId);
+    const removed = uris?.delete(uri) ?? false;
+    if (uris?.size === 0) {
+      this.sessions.delete(sessionId);
+    }
+    return removed;
+  }
+
+  clearSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Subscribed URIs in a session that satisfy the predicate
+   */
+  find(sessionId: string, predicate: (uri: string) => boolean): string[] {
+    return [...(this.sessions.get(sessionId) ?? [])].filter(predicate);
+  }
+
+  /**
+   * Every (session, URI) subscription that satisfies the predicate
+   */
+  findAll(predicate: (uri: string) => boolean): Array<{ sessionId: string; uri: string }> {
+    return [...this.sessions].flatMap(([sessionId, uris]) =>
+      [...uris].filter(predicate).map(uri => ({ sessionId, uri }))
+    );
+  }
+}
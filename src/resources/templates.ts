@@ -0,0 +1,103 @@
+import { ModelInfo } from '../models.js';
+import { ValidationError } from '../utils/errors.js';
+
+export const TRANSCRIPT_FORMATS = ['markdown', 'json'] as const;
+
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number];
+
+/**
+ * Templates served through `resources/templates/list`
+ */
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'gemini://models/{name}',
+    name: 'Gemini Model',
+    description: 'Capability card for a single Gemini model',
+    mimeType: 'text/markdown'
+  },
+  {
+    uriTemplate: 'gemini://conversations/{id}{?format}',
+    name: 'Conversation Transcript',
+    description:
+      'Transcript of a generate_text conversation in this session (format=markdown or json)',
+    mimeType: 'text/markdown'
+  }
+];
+
+export type ResourceTemplateMatch =
+  | { type: 'model'; name: string }
+  | { type: 'conversation'; id: string; format: TranscriptFormat };
+
+/**
+ * Resolve a URI against the resource templates (undefined if none match)
+ */
+export function matchResourceTemplate(uri: string): ResourceTemplateMatch | undefined {
+  let url: URL;
+  let value: string;
+  try {
+    url = new URL(uri);
+    const segments = url.pathname.split('/').filter(Boolean);
+    if (url.protocol !== 'gemini:' || segments.length !== 1) {
+      return undefined;
+    }
+    value = decodeURIComponent(segments[0]);
+  } catch {
+    return undefined;
+  }
+
+  if (url.hostname === 'models' && !url.search) {
+    return { type: 'model', name: value };
+  }
+
+  if (url.hostname === 'conversations') {
+    const format = url.searchParams.get('format') ?? 'markdown';
+    if (!TRANSCRIPT_FORMATS.includes(format as TranscriptFormat)) {
+      throw new ValidationError(`Unsupported transcript format: ${format}`, {
+        allowed: [...TRANSCRIPT_FORMATS]
+      });
+    }
+    return { type: 'conversation', id: value, format: format as TranscriptFormat };
+  }
+
+  return undefined;
+}
+
+export function renderModelCard(name: string, model: ModelInfo): string {
+  const details = [
+    `- **Context window:** ${model.contextWindow.toLocaleString('en-US')} tokens`,
+    ...(model.outputTokenLimit
+      ? [`- **Output limit:** ${model.outputTokenLimit.toLocaleString('en-US')} tokens`]
+      : []),
+    `- **Thinking:** ${model.thinking ? 'yes' : 'no'}`,
+    `- **Features:** ${model.features.join(', ') || 'none listed'}`,
+    ...(model.supportedActions ? [`- **Methods:** ${model.supportedActions.join(', ')}`] : [])
+  ];
+
+  return `# ${name}
+
+${model.description}
+
+${details.join('\n')}`;
+}
+
+/**
+ * Render stored conversation history (Gemini `contents` entries) as a transcript
+ */
+export function renderTranscript(id: string, history: any[], format: TranscriptFormat): string {
+  const messages = history.map(entry => ({
+    role: entry.role === 'model' ? 'model' : 'user',
+    text: (entry.parts ?? [])
+      .map((part: { text?: string }) => part.text)
+      .filter(Boolean)
+      .join('\n')
+  }));
+
+  if (format === 'json') {
+    return JSON.stringify({ id, messages }, null, 2);
+  }
+
+  const turns = messages.map(
+    message => `## ${message.role === 'model' ? 'Gemini' : 'User'}\n\n${message.text}`
+  );
+  return [`# Conversation ${id}`, ...turns].join('\n\n');
+}
@@ -0,0 +1,129 @@
+import { GenerateContentResponse } from '@google/genai';
+import { z } from 'zod';
+import { FallbackResult, modelFallback } from '../modelFallback.js';
+import { estimateTokens, modelRouter } from '../modelRouter.js';
+import { ErrorHandler } from '../utils/errors.js';
+import { ProgressReporter } from '../utils/progress.js';
+import { CommonSchemas } from '../utils/validation.js';
+import { defineTool } from './registry.js';
+
+const inputSchema = z
+  .object({
+    prompt: z
+      .string()
+      .min(1, 'Prompt is required')
+      .describe('Question or instruction about the image'),
+    imageUrl: CommonSchemas.imageUrl.optional().describe('URL of the image to analyze'),
+    imageBase64: z
+      .string()
+      .min(1, 'Image data is required')
+      // Raw base64 is sent as JPEG; a data URI must name a supported image type
+      .refine(
+        value => !value.startsWith('data:') || CommonSchemas.base64Image.safeParse(value).success,
+        'Must be valid base64 image data'
+      )
+      .optional()
+      .describe('Base64-encoded image data or data URI (alternative to URL)'),
+    model: CommonSchemas.geminiModel
+      .default('gemini-2.5-flash')
+      .describe('Vision-capable Gemini model, alias or "auto"')
+  })
+  .refine(
+    data => data.imageUrl || data.imageBase64,
+    'Either imageUrl or imageBase64 must be provided'
+  );
+
+export const analyzeImage = defineTool({
+  name: 'analyze_image',
+  description: 'Analyze images using Gemini vision capabilities',
+  annotations: {
+    title: 'Analyze Image',
+    readOnlyHint: true,
+    idempotentHint: false,
+    // The image can come from any URL
+    openWorldHint: true
+  },
+  inputSchema,
+  help: 'Provide either imageUrl or imageBase64.\n\n**Example:** "Analyze this architecture diagram"',
+
+  async handler(args, context) {
+    const { model, requested, reason } = modelRouter.resolve(args.model, {
+      promptTokens: estimateTokens(args.prompt)
+    });
+
+    // Prepare image part
+    let imagePart: any;
+    if (args.imageUrl) {
+      // For URL, we'd need to fetch and convert to base64
+      // For now, we'll just pass the URL as instruction
+      imagePart = {
+        text: `[Image URL: ${args.imageUrl}]`
+      };
+    } else {
+      // If no data URI format, assume raw base64 JPEG
+      const [, mimeType = 'image/jpeg', data = args.imageBase64] =
+        args.imageBase64!.match(/^data:(.+);base64,(.+)$/) ?? [];
+      imagePart = {
+        inlineData: {
+          mimeType,
+          data
+        }
+      };
+    }
+
+    const progress = new ProgressReporter(context);
+    const imageBytes = imagePart.inlineData
+      ? Math.floor((imagePart.inlineData.data.length * 3) / 4)
+      : 0;
+    const stopKeepAlive = progress.keepAlive(`Analyzing image with ${model}`);
+    let response: FallbackResult<GenerateContentResponse>;
+    try {
+      response = await modelFallback.call(
+        model,
+        candidate => {
+          progress.step(
+            imageBytes > 0
+              ? `Uploading image (${Math.round(imageBytes / 1024)} KB) to ${candidate}`
+              : `Sending image URL to ${candidate}`
+          );
+          return context.callGemini(
+            () =>
+              context.genAI.models.generateContent({
+                model: candidate,
+                contents: [
+                  {
+                    parts: [{ text: args.prompt }, imagePart],
+                    role: 'user'
+                  }
+                ],
+                config: { abortSignal: context.signal }
+              }),
+            candidate
+          );
+        },
+        context.signal
+      );
+    } finally {
+      stopKeepAlive();
+    }
+
+    const { result } = response;
+    ErrorHandler.assertNotBlocked(result);
+    const text = result.text || '';
+    progress.step('Image analysis complete');
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text
+        }
+      ],
+      metadata: {
+        model: response.model,
+        ...(requested !== model && { requestedModel: requested, routingReason: reason }),
+        ...(response.skipped.length > 0 && { fallbackFrom: response.skipped })
+      }
+    };
+  }
+});
@@ -0,0 +1,16 @@
+import { analyzeImage } from './analyzeImage.js';
+import { countTokens } from './countTokens.js';
+import { embedText } from './embedText.js';
+import { generateText } from './generateText.js';
+import { getHelp } from './getHelp.js';
+import { listModels } from './listModels.js';
+import { Tool } from './registry.js';
+
+export const BUILTIN_TOOLS: Tool[] = [
+  generateText,
+  analyzeImage,
+  countTokens,
+  listModels,
+  embedText,
+  getHelp
+];
@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { estimateTokens, modelRouter } from '../modelRouter.js';
+import { CommonSchemas } from '../utils/validation.js';
+import { defineTool } from './registry.js';
+
+const inputSchema = z.object({
+  text: z.string().min(1, 'Text is required').describe('Text to count tokens for'),
+  model: CommonSchemas.geminiModel
+    .default('gemini-2.5-flash')
+    .describe('Model to use for token counting')
+});
+
+export const countTokens = defineTool({
+  name: 'count_tokens',
+  description: 'Count tokens for a given text with a specific model',
+  annotations: {
+    title: 'Count Tokens',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: false
+  },
+  inputSchema,
+  outputSchema: {
+    type: 'object',
+    properties: {
+      tokenCount: { type: 'number', description: 'Number of tokens in the text' },
+      model: { type: 'string', description: 'Model used for counting, with aliases resolved' }
+    },
+    required: ['tokenCount', 'model']
+  },
+  help: '**Example:** "Count tokens for this paragraph"',
+
+  async handler({ text, model: requested }, context) {
+    const { model } = modelRouter.resolve(requested, { promptTokens: estimateTokens(text) });
+    const result = await context.callGemini(
+      () =>
+        context.genAI.models.countTokens({
+          model,
+          contents: [
+            {
+              parts: [
+                {
+                  text
+                }
+              ],
+              role: 'user'
+            }
+          ],
+          config: { abortSignal: context.signal }
+        }),
+      model
+    );
+
+    const tokenCount = result.totalTokens ?? 0;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Token count: ${tokenCount}`
+        }
+      ],
+      structuredContent: { tokenCount, model }
+    };
+  }
+});
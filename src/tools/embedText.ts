@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { defineTool } from './registry.js';
+
+const inputSchema = z.object({
+  text: z.string().min(1, 'Text is required').describe('Text to generate embeddings for'),
+  model: z
+    .enum(['text-embedding-004', 'text-multilingual-embedding-002'])
+    .default('text-embedding-004')
+    .describe('Embedding model to use')
+});
+
+export const embedText = defineTool({
+  name: 'embed_text',
+  description: 'Generate embeddings for text using Gemini embedding models',
+  annotations: {
+    title: 'Embed Text',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: false
+  },
+  inputSchema,
+  outputSchema: {
+    type: 'object',
+    properties: {
+      embedding: { type: 'array', items: { type: 'number' } },
+      model: { type: 'string', description: 'Embedding model used' },
+      dimensions: { type: 'number', description: 'Length of the embedding vector' }
+    },
+    required: ['embedding', 'model', 'dimensions']
+  },
+  help: '**Example:** "Generate embeddings for similarity search"',
+
+  async handler({ text, model }, context) {
+    const result = await context.callGemini(
+      () =>
+        context.genAI.models.embedContent({
+          model,
+          contents: text,
+          config: { abortSignal: context.signal }
+        }),
+      model
+    );
+
+    const embedding = result.embeddings?.[0]?.values || [];
+    const structuredContent = { embedding, model, dimensions: embedding.length };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(structuredContent)
+        }
+      ],
+      structuredContent
+    };
+  }
+});
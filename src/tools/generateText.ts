@@ -0,0 +1,296 @@
+import { GenerateContentResponse } from '@google/genai';
+import { z } from 'zod';
+import { FallbackResult, modelFallback } from '../modelFallback.js';
+import { estimateTokens, modelRouter } from '../modelRouter.js';
+import { modelCatalog } from '../models.js';
+import { ErrorHandler, StreamInterruptedError, ToolExecutionError } from '../utils/errors.js';
+import { logger, LogLevel } from '../utils/logger.js';
+import { ProgressReporter } from '../utils/progress.js';
+import { CommonSchemas, Validator } from '../utils/validation.js';
+import { defineTool, ToolContext } from './registry.js';
+
+const streamLogger = logger.child('generate_text');
+
+const inputSchema = z.object({
+  prompt: z.string().min(1, 'Prompt is required').describe('The prompt to send to Gemini'),
+  model: CommonSchemas.geminiModel
+    .default('gemini-2.5-flash')
+    .describe('Gemini model, alias (fast, smart, cheap, vision) or "auto" to route by request'),
+  systemInstruction: z.string().optional().describe('System instruction to guide model behavior'),
+  temperature: CommonSchemas.temperature.default(0.7).describe('Temperature for generation (0-2)'),
+  maxTokens: CommonSchemas.maxTokens.default(2048).describe('Maximum tokens to generate'),
+  topK: CommonSchemas.topK.default(40).describe('Top-k sampling parameter'),
+  topP: CommonSchemas.topP.default(0.95).describe('Top-p (nucleus) sampling parameter'),
+  jsonMode: z.boolean().default(false).describe('Enable JSON mode for structured output'),
+  jsonSchema: CommonSchemas.jsonSchema
+    .optional()
+    .describe('JSON schema as a string for structured output (when jsonMode is true)'),
+  grounding: z
+    .boolean()
+    .default(false)
+    .describe('Enable Google Search grounding for up-to-date information'),
+  safetySettings: CommonSchemas.safetySettings
+    .optional()
+    .describe('Safety settings as a JSON array string for content filtering'),
+  conversationId: CommonSchemas.conversationId
+    .optional()
+    .describe('ID for maintaining conversation context'),
+  stream: z
+    .boolean()
+    .default(false)
+    .describe(
+      'Stream the response, forwarding partial text as progress notifications, or as log messages without a progressToken'
+    )
+});
+
+/**
+ * Parse a JSON-mode reply. Structured content must be an object, so other
+ * JSON values are left as text only.
+ */
+function parseStructuredOutput(
+  text: string,
+  finishReason?: string
+): Record<string, unknown> | undefined {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new ToolExecutionError('Gemini returned invalid JSON for the requested schema', -32603, {
+      reason: 'invalid_json',
+      finishReason
+    });
+  }
+
+  return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+    ? (parsed as Record<string, unknown>)
+    : undefined;
+}
+
+/**
+ * Stream a generation, forwarding each partial text chunk as a progress
+ * notification, or as a log record when the request has no progress token.
+ * Returns the assembled text with the final chunk, which carries the usage
+ * metadata and finish reason.
+ */
+async function generateTextStream(
+  context: ToolContext,
+  requestBody: any,
+  progress: ProgressReporter,
+  onFirstChunk: () => void
+): Promise<{ result: GenerateContentResponse; text: string; chunks: number }> {
+  let text = '';
+  let chunks = 0;
+
+  // The stream is read inside the call, so it holds a concurrency slot until it
+  // ends, and the usage that arrives with the last chunk counts toward the quotas
+  const result = await context.callGemini(async () => {
+    const stream = await context.genAI.models.generateContentStream(requestBody);
+    let last = new GenerateContentResponse();
+    let usageMetadata: GenerateContentResponse['usageMetadata'];
+    text = '';
+    chunks = 0;
+
+    try {
+      for await (const chunk of stream) {
+        if (chunks === 0) {
+          onFirstChunk();
+        }
+        chunks++;
+
+        const chunkText = chunk.text ?? '';
+        text += chunkText;
+        usageMetadata = chunk.usageMetadata ?? usageMetadata;
+        last = chunk;
+
+        // Without a progress token, the session's log notifications carry the text
+        if (chunkText && progress.enabled) {
+          progress.step(chunkText);
+        } else if (chunkText) {
+          streamLogger.forward(LogLevel.INFO, chunkText, {
+            model: requestBody.model,
+            chunk: chunks
+          });
+        }
+      }
+    } catch (error) {
+      // Only a stream that failed before sending anything may be retried
+      if (chunks === 0) {
+        throw error;
+      }
+      throw new StreamInterruptedError(chunks, ErrorHandler.toMCPError(error));
+    }
+
+    last.usageMetadata = usageMetadata;
+    return last;
+  }, requestBody.model);
+
+  logger.api(`Stream completed with ${chunks} chunks`);
+  return { result, text, chunks };
+}
+
+export const generateText = defineTool({
+  name: 'generate_text',
+  description: 'Generate text using Google Gemini with advanced features',
+  annotations: {
+    title: 'Generate Text',
+    // Conversation turns are recorded, and grounding searches the web
+    readOnlyHint: false,
+    idempotentHint: false,
+    openWorldHint: true
+  },
+  inputSchema,
+  help: '**Example:** "Use Gemini 2.5 Pro to explain quantum computing"',
+
+  async handler(args, context) {
+    // Build generation config (the SDK reads every option, including the abort signal, from here)
+    const generationConfig: any = {
+      temperature: args.temperature,
+      maxOutputTokens: args.maxTokens,
+      topK: args.topK,
+      topP: args.topP,
+      abortSignal: context.signal
+    };
+
+    // Add JSON mode if requested
+    if (args.jsonMode) {
+      generationConfig.responseMimeType = 'application/json';
+      if (args.jsonSchema) {
+        generationConfig.responseSchema = Validator.validateJSON(args.jsonSchema);
+      }
+    }
+
+    // Build the request
+    const userContent = {
+      parts: [
+        {
+          text: Validator.sanitizeString(args.prompt)
+        }
+      ],
+      role: 'user'
+    };
+    const requestBody: any = {
+      contents: [userContent],
+      config: generationConfig
+    };
+
+    // Add system instruction if provided
+    if (args.systemInstruction) {
+      generationConfig.systemInstruction = {
+        parts: [
+          {
+            text: Validator.sanitizeString(args.systemInstruction)
+          }
+        ]
+      };
+    }
+
+    // Add safety settings if provided
+    if (args.safetySettings) {
+      generationConfig.safetySettings = JSON.parse(args.safetySettings);
+    }
+
+    // Handle conversation context (scoped to the caller's session)
+    if (args.conversationId) {
+      const history = context.conversations.get(context.sessionId, args.conversationId);
+      if (history.length > 0) {
+        requestBody.contents = [...history, ...requestBody.contents];
+      }
+    }
+
+    // Resolve aliases and "auto" once the whole prompt is known
+    const promptText = [
+      args.systemInstruction ?? '',
+      ...requestBody.contents.flatMap((content: { parts?: Array<{ text?: string }> }) =>
+        (content.parts ?? []).map(part => part.text ?? '')
+      )
+    ].join('\n');
+    const { model, requested, reason } = modelRouter.resolve(args.model, {
+      promptTokens: estimateTokens(promptText),
+      maxTokens: args.maxTokens,
+      grounding: args.grounding,
+      jsonMode: args.jsonMode
+    });
+    logger.api(`Generating text with model: ${model}`);
+
+    // Call the API, falling back to the next model in the chain if this one is unavailable
+    const progress = new ProgressReporter(context);
+    const stopKeepAlive = progress.keepAlive(`Waiting for ${model}`);
+    let response: FallbackResult<{
+      result: GenerateContentResponse;
+      text: string;
+      chunks?: number;
+    }>;
+    try {
+      response = await modelFallback.call(
+        model,
+        async candidate => {
+          progress.step(`Sending request to ${candidate}`);
+          const request = { ...requestBody, model: candidate, config: { ...generationConfig } };
+
+          // Add grounding if requested and supported by this model
+          if (args.grounding && modelCatalog.get(candidate)?.features.includes('grounding')) {
+            request.config.tools = [
+              {
+                googleSearch: {}
+              }
+            ];
+          } else if (args.grounding) {
+            logger.warn(`Grounding dropped: ${candidate} does not support it`);
+          }
+
+          if (args.stream) {
+            return generateTextStream(context, request, progress, stopKeepAlive);
+          }
+          const result = await context.callGemini(
+            () => context.genAI.models.generateContent(request),
+            candidate
+          );
+          return { result, text: result.text || '' };
+        },
+        context.signal
+      );
+    } finally {
+      stopKeepAlive();
+    }
+    const { result, text, chunks } = response.result;
+    progress.step(`Received response from ${response.model}`);
+    ErrorHandler.assertNotBlocked(result);
+
+    // With a schema, the JSON reply doubles as structured content
+    let structuredContent: Record<string, unknown> | undefined;
+    if (generationConfig.responseSchema) {
+      structuredContent = parseStructuredOutput(text, result.candidates?.[0]?.finishReason);
+    }
+
+    // Update conversation history if needed
+    if (args.conversationId) {
+      context.conversations.append(context.sessionId, args.conversationId, userContent, {
+        parts: [
+          {
+            text
+          }
+        ],
+        role: 'model'
+      });
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text
+        }
+      ],
+      metadata: {
+        model: response.model,
+        ...(requested !== model && { requestedModel: requested, routingReason: reason }),
+        ...(response.skipped.length > 0 && { fallbackFrom: response.skipped }),
+        tokensUsed: result.usageMetadata?.totalTokenCount,
+        candidatesCount: result.candidates?.length || 1,
+        finishReason: result.candidates?.[0]?.finishReason,
+        ...(chunks !== undefined && { streamed: true, chunks })
+      },
+      ...(structuredContent && { structuredContent })
+    };
+  }
+});
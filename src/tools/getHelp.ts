@@ -0,0 +1,240 @@
+import { z } from 'zod';
+import { SERVER_VERSION } from '../version.js';
+import { defineTool, ToolRegistry } from './registry.js';
+
+export const HELP_TOPICS = [
+  'overview',
+  'tools',
+  'models',
+  'parameters',
+  'examples',
+  'quick-start'
+] as const;
+
+export type HelpTopic = (typeof HELP_TOPICS)[number];
+
+const inputSchema = z.object({
+  topic: z.enum(HELP_TOPICS).default('overview').describe('Help topic to get information about')
+});
+
+function overview(tools: ToolRegistry): string {
+  const toolList = tools
+    .list()
+    .map((tool, index) => `${index + 1}. **${tool.name}** - ${tool.description}`)
+    .join('\n');
+
+  return `# Gemini MCP Server Help
+
+Welcome to the Gemini MCP Server v${SERVER_VERSION}! This server provides access to Google's Gemini AI models through Claude Desktop.
+
+## Available Tools
+${toolList}
+
+## Quick Start
+- "Use Gemini to explain [topic]"
+- "Analyze this image with Gemini"
+- "List all Gemini models"
+- "Get help on parameters"
+
+## Key Features
+- Latest Gemini 2.5 models with thinking capabilities
+- JSON mode for structured output
+- Google Search grounding for current information
+- System instructions for behavior control
+- Conversation memory for context
+- Safety settings customization
+
+Use "get help on tools" for detailed tool information.`;
+}
+
+function parameters(tools: ToolRegistry): string {
+  return `# Parameter Reference
+
+## generate_text Parameters
+
+${tools.describeParameters('generate_text')}
+
+## Temperature Guide
+- 0.1-0.3: Precise, factual
+- 0.5-0.8: Balanced (default 0.7)
+- 1.0-1.5: Creative
+- 1.5-2.0: Very creative
+
+## JSON Mode Example
+Enable jsonMode and provide jsonSchema:
+{
+  "type": "object",
+  "properties": {
+    "sentiment": {"type": "string"},
+    "score": {"type": "number"}
+  }
+}
+
+## Safety Settings
+Categories: HARASSMENT, HATE_SPEECH, SEXUALLY_EXPLICIT, DANGEROUS_CONTENT
+Thresholds: BLOCK_NONE, BLOCK_ONLY_HIGH, BLOCK_MEDIUM_AND_ABOVE, BLOCK_LOW_AND_ABOVE`;
+}
+
+const MODELS_HELP = `# Available Gemini Models
+
+## Thinking Models (Latest - 2.5 Series)
+**gemini-2.5-pro**
+- Most capable, best for complex reasoning
+- 2M token context window
+- Features: thinking, JSON mode, grounding, system instructions
+
+**gemini-2.5-flash** ⭐ Recommended
+- Best balance of speed and capability
+- 1M token context window
+- Features: thinking, JSON mode, grounding, system instructions
+
+**gemini-2.5-flash-lite**
+- Ultra-fast, cost-efficient
+- 1M token context window
+- Features: thinking, JSON mode, system instructions
+
+## Standard Models (2.0 Series)
+**gemini-2.0-flash**
+- Fast and efficient
+- 1M token context window
+- Features: JSON mode, grounding, system instructions
+
+**gemini-2.0-flash-lite**
+- Most cost-efficient
+- 1M token context window
+- Features: JSON mode, system instructions
+
+**gemini-2.0-pro-experimental**
+- Excellent for coding
+- 2M token context window
+- Features: JSON mode, grounding, system instructions
+
+## Model Selection Guide
+- Complex reasoning: gemini-2.5-pro
+- General use: gemini-2.5-flash
+- Fast responses: gemini-2.5-flash-lite
+- Cost-sensitive: gemini-2.0-flash-lite
+- Coding tasks: gemini-2.0-pro-experimental
+
+## Aliases and Routing
+- fast, smart, cheap and vision name a model (configurable with MODEL_ALIASES)
+- auto picks the cheapest model that fits the prompt size, grounding and JSON mode`;
+
+const EXAMPLES_HELP = `# Usage Examples
+
+## Basic Text Generation
+"Use Gemini to explain machine learning"
+
+## With Specific Model
+"Use Gemini 2.5 Pro to write a Python sorting function"
+
+## With Temperature
+"Use Gemini with temperature 1.5 to write a creative story"
+
+## JSON Mode
+"Use Gemini in JSON mode to analyze sentiment and return {sentiment, confidence, keywords}"
+
+## With Grounding
+"Use Gemini with grounding to research latest AI developments"
+
+## System Instructions
+"Use Gemini as a Python tutor to explain decorators"
+
+## Conversation Context
+"Start conversation 'chat-001' about web development"
+"Continue chat-001 and ask about React hooks"
+
+## Image Analysis
+"Analyze this screenshot and describe the UI elements"
+
+## Token Counting
+"Count tokens for this document using gemini-2.5-pro"
+
+## Complex Example
+"Use Gemini 2.5 Pro to review this code with:
+- System instruction: 'You are a security expert'
+- Temperature: 0.3
+- JSON mode with schema for findings
+- Grounding for latest security practices"`;
+
+const QUICK_START_HELP = `# Quick Start Guide
+
+## 1. Basic Usage
+Just ask naturally:
+- "Use Gemini to [your request]"
+- "Ask Gemini about [topic]"
+
+## 2. Common Tasks
+
+**Text Generation:**
+"Use Gemini to write a function that sorts arrays"
+
+**Image Analysis:**
+"What's in this image?" [attach image]
+
+**Model Info:**
+"List all Gemini models"
+
+**Token Counting:**
+"Count tokens for my prompt"
+
+## 3. Advanced Features
+
+**JSON Output:**
+"Use Gemini in JSON mode to extract key points"
+
+**Current Information:**
+"Use Gemini with grounding to get latest news"
+
+**Conversations:**
+"Start a chat with Gemini about Python"
+
+## 4. Tips
+- Use gemini-2.5-flash for most tasks
+- Lower temperature for facts, higher for creativity
+- Enable grounding for current information
+- Use conversation IDs to maintain context
+
+## Need More Help?
+- "Get help on tools" - Detailed tool information
+- "Get help on parameters" - All parameters explained
+- "Get help on models" - Model selection guide`;
+
+/**
+ * Render a help topic; tool listings come from the registry
+ */
+export function renderHelp(topic: HelpTopic, tools: ToolRegistry): string {
+  const topics: Record<HelpTopic, () => string> = {
+    overview: () => overview(tools),
+    tools: () => tools.help(),
+    models: () => MODELS_HELP,
+    parameters: () => parameters(tools),
+    examples: () => EXAMPLES_HELP,
+    'quick-start': () => QUICK_START_HELP
+  };
+  return topics[topic]();
+}
+
+export const getHelp = defineTool({
+  name: 'get_help',
+  description: 'Get help and usage information for the Gemini MCP server',
+  annotations: {
+    title: 'Get Help',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: false
+  },
+  inputSchema,
+  help: '**Example:** "Get help on parameters"',
+
+  handler({ topic }, context) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: renderHelp(topic, context.tools)
+        }
+      ]
+    };
+  }
+});
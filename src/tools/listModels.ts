@@ -0,0 +1,96 @@
+import { z } from 'zod';
+import { modelCatalog } from '../models.js';
+import { defineTool } from './registry.js';
+
+const inputSchema = z.object({
+  filter: z
+    .enum(['all', 'thinking', 'vision', 'grounding', 'json_mode'])
+    .default('all')
+    .describe('Filter models by capability')
+});
+
+export const listModels = defineTool({
+  name: 'list_models',
+  description: 'List all available Gemini models and their capabilities',
+  annotations: {
+    title: 'List Models',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: false
+  },
+  inputSchema,
+  outputSchema: {
+    type: 'object',
+    properties: {
+      models: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            description: { type: 'string' },
+            features: { type: 'array', items: { type: 'string' } },
+            contextWindow: { type: 'number' },
+            thinking: { type: 'boolean' },
+            displayName: { type: 'string' },
+            inputTokenLimit: { type: 'number' },
+            outputTokenLimit: { type: 'number' },
+            supportedActions: { type: 'array', items: { type: 'string' } }
+          },
+          required: ['name', 'description', 'features', 'contextWindow']
+        }
+      },
+      count: { type: 'number', description: 'Number of models returned' },
+      filter: { type: 'string', description: 'Filter that was applied' },
+      source: {
+        type: 'string',
+        enum: ['static', 'cache', 'api'],
+        description: 'Where the model list came from'
+      }
+    },
+    required: ['models', 'count', 'filter', 'source']
+  },
+  help: '**Example:** "List models with thinking capability"',
+
+  handler({ filter }) {
+    let models = Object.entries(modelCatalog.all());
+
+    if (filter !== 'all') {
+      models = models.filter(([_, info]) => {
+        switch (filter) {
+          case 'thinking':
+            return 'thinking' in info && info.thinking === true;
+          case 'vision':
+            return info.features.includes('function_calling'); // All current models support vision
+          case 'grounding':
+            return info.features.includes('grounding');
+          case 'json_mode':
+            return info.features.includes('json_mode');
+          default:
+            return true;
+        }
+      });
+    }
+
+    const modelList = models.map(([name, info]) => ({
+      name,
+      ...info
+    }));
+    const structuredContent = {
+      models: modelList,
+      count: modelList.length,
+      filter,
+      source: modelCatalog.status().source
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(structuredContent, null, 2)
+        }
+      ],
+      structuredContent
+    };
+  }
+});
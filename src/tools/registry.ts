@@ -0,0 +1,273 @@
+import { GoogleGenAI } from '@google/genai';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { RequestContext, ToolAnnotations, ToolDefinition } from '../types.js';
+import { ConcurrencyLimiter } from '../utils/concurrency.js';
+import { ConversationStore } from '../utils/conversationStore.js';
+import { RetryOptions, RetryStats, ValidationError, withRetry } from '../utils/errors.js';
+import { RateLimiter } from '../utils/rateLimiter.js';
+import { withTimeout } from '../utils/timeout.js';
+import { Validator } from '../utils/validation.js';
+
+/**
+ * What a tool handler gets besides its arguments: the calling request plus
+ * the server's shared services
+ */
+export interface ToolContext extends RequestContext {
+  genAI: GoogleGenAI;
+  conversations: ConversationStore;
+  tools: ToolRegistry;
+  /**
+   * Run a Gemini call under the retry policy. Naming the model makes each
+   * attempt wait for the model's rate limits and one of its concurrency
+   * slots. The attempts, backoff and waits of all calls are reported in the
+   * result metadata.
+   */
+  callGemini<T>(operation: () => Promise<T>, model?: string): Promise<T>;
+}
+
+export interface ToolResult {
+  content: Array<{ type: 'text'; text: string }>;
+  structuredContent?: Record<string, unknown>;
+  metadata?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+export interface Tool<Schema extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  annotations?: ToolAnnotations;
+  /**
+   * Validates `tools/call` arguments; the JSON Schema in `tools/list` is derived from it
+   */
+  inputSchema: Schema;
+  outputSchema?: Record<string, any>;
+  /**
+   * Markdown for `get_help`, shown after the generated parameter list
+   */
+  help?: string;
+  handler(args: z.output<Schema>, context: ToolContext): Promise<ToolResult> | ToolResult;
+}
+
+/**
+ * Identity helper that infers the handler's argument type from the schema
+ */
+export function defineTool<Schema extends z.ZodTypeAny>(tool: Tool<Schema>): Tool<Schema> {
+  return tool;
+}
+
+/**
+ * JSON Schema for a tool's Zod input schema, without the `$schema` marker
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): Record<string, any> {
+  const jsonSchema = zodToJsonSchema(schema, {
+    $refStrategy: 'none',
+    removeAdditionalStrategy: 'strict'
+  }) as Record<string, any>;
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+export interface ToolRegistryOptions {
+  /**
+   * Deadline for each tool call in ms (0 for none)
+   */
+  timeoutMs?: number;
+  /**
+   * Per-tool deadlines, taking precedence over `timeoutMs`
+   */
+  toolTimeouts?: Record<string, number>;
+  /**
+   * Retry policy for Gemini calls; the budget applies to each tool call
+   */
+  retry?: Pick<RetryOptions, 'maxAttempts' | 'baseDelay' | 'budgetMs'>;
+  /**
+   * Per-model limit on Gemini calls in flight; none if omitted
+   */
+  limiter?: ConcurrencyLimiter;
+  /**
+   * Limits tool calls per session and tool, and Gemini calls to the model quotas
+   */
+  rateLimiter?: RateLimiter;
+}
+
+interface WaitStats {
+  queueWaitMs?: number;
+  rateLimitWaitMs: number;
+}
+
+/**
+ * Holds the tools served through `tools/list` and `tools/call`
+ */
+export class ToolRegistry {
+  private tools = new Map<string, Tool>();
+
+  constructor(
+    tools: Tool[] = [],
+    private options: ToolRegistryOptions = {}
+  ) {
+    tools.forEach(tool => this.register(tool));
+  }
+
+  register(tool: Tool): void {
+    this.tools.set(tool.name, tool);
+  }
+
+  unregister(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  names(): string[] {
+    return [...this.tools.keys()];
+  }
+
+  /**
+   * Tool listing in the shape `tools/list` returns
+   */
+  list(): ToolDefinition[] {
+    return [...this.tools.values()].map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      ...(tool.annotations && { annotations: tool.annotations }),
+      inputSchema: toJsonSchema(tool.inputSchema),
+      ...(tool.outputSchema && { outputSchema: tool.outputSchema })
+    }));
+  }
+
+  /**
+   * Validate the arguments against the tool's schema and run its handler
+   * under the tool's deadline. The handler's `context.signal` aborts when the
+   * deadline passes, so Gemini calls made with it are cancelled.
+   */
+  async call(
+    name: unknown,
+    args: unknown,
+    context: Omit<ToolContext, 'callGemini'>
+  ): Promise<ToolResult> {
+    if (typeof name !== 'string' || !name) {
+      throw new ValidationError('Missing required parameter: name');
+    }
+
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new ValidationError(`Unknown tool: ${name}`);
+    }
+
+    const validated = Validator.validateToolParams(tool.inputSchema, args ?? {});
+    const retry: RetryStats = { attempts: 0, backoffMs: 0 };
+    const waits: WaitStats = { rateLimitWaitMs: 0 };
+    const startedAt = Date.now();
+    const result = await withTimeout(
+      async signal => {
+        if (this.options.rateLimiter) {
+          waits.rateLimitWaitMs += await this.options.rateLimiter.acquireToolCall(
+            context.sessionId,
+            name,
+            signal
+          );
+        }
+
+        return tool.handler(validated, {
+          ...context,
+          signal,
+          callGemini: (operation, model) =>
+            withRetry(() => this.limit(operation, model, signal, waits), {
+              ...this.options.retry,
+              startedAt,
+              signal,
+              stats: retry
+            })
+        });
+      },
+      this.timeoutFor(tool),
+      { signal: context.signal, label: `Tool ${name}` }
+    );
+
+    const metadata = {
+      ...result.metadata,
+      ...(retry.attempts > 0 && { retry }),
+      ...(waits.queueWaitMs !== undefined && { queueWaitMs: waits.queueWaitMs }),
+      ...(waits.rateLimitWaitMs > 0 && { rateLimitWaitMs: waits.rateLimitWaitMs })
+    };
+    return Object.keys(metadata).length > 0 ? { ...result, metadata } : result;
+  }
+
+  /**
+   * One attempt of a Gemini call for a model: wait for the model's quotas
+   * and a concurrency slot, then count the tokens of the response
+   */
+  private async limit<T>(
+    operation: () => Promise<T>,
+    model: string | undefined,
+    signal: AbortSignal,
+    waits: WaitStats
+  ): Promise<T> {
+    const { rateLimiter, limiter } = this.options;
+    if (!model) {
+      return operation();
+    }
+
+    if (rateLimiter) {
+      waits.rateLimitWaitMs += await rateLimiter.acquireModelCall(model, signal);
+    }
+    let result: T;
+    if (limiter) {
+      const slot = await limiter.run(model, operation, signal);
+      waits.queueWaitMs = (waits.queueWaitMs ?? 0) + slot.waitMs;
+      result = slot.result;
+    } else {
+      result = await operation();
+    }
+
+    const usage = (result as { usageMetadata?: { totalTokenCount?: number } })?.usageMetadata;
+    rateLimiter?.recordTokens(model, usage?.totalTokenCount ?? 0);
+    return result;
+  }
+
+  /**
+   * A configured per-tool deadline wins over the default
+   */
+  timeoutFor(tool: Tool): number {
+    return this.options.toolTimeouts?.[tool.name] ?? this.options.timeoutMs ?? 0;
+  }
+
+  /**
+   * Help for every registered tool: description, parameters and the tool's own notes
+   */
+  help(): string {
+    const sections = [...this.tools.values()].map((tool, index) =>
+      [
+        `## ${index + 1}. ${tool.name}\n${tool.description}`,
+        `**Parameters:**\n${this.describeParameters(tool.name)}`,
+        ...(tool.help ? [tool.help] : [])
+      ].join('\n\n')
+    );
+    return ['# Available Tools', ...sections].join('\n\n');
+  }
+
+  /**
+   * Markdown parameter list generated from a tool's input schema
+   */
+  describeParameters(name: string): string {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new ValidationError(`Unknown tool: ${name}`);
+    }
+
+    const { properties = {}, required = [] } = toJsonSchema(tool.inputSchema);
+    const lines = Object.entries<Record<string, any>>(properties).map(([param, schema]) => {
+      const details = [
+        schema.type,
+        ...(required.includes(param) ? ['required'] : []),
+        ...(schema.default !== undefined ? [`default: ${schema.default}`] : [])
+      ];
+      const choices = schema.enum ? ` (${schema.enum.join(', ')})` : '';
+      return `- ${param} (${details.join(', ')}): ${schema.description ?? ''}${choices}`;
+    });
+    return lines.length > 0 ? lines.join('\n') : '- none';
+  }
+}
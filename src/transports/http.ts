@@ -0,0 +1,336 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { MCPResponse, MessageHandler, Transport } from '../types.js';
+import { logger as rootLogger } from '../utils/logger.js';
+import {
+  isOriginAllowed,
+  KEEP_ALIVE_INTERVAL,
+  openEventStream,
+  OutgoingMessage,
+  readBody,
+  writeEvent,
+  writeJsonError
+} from './httpUtils.js';
+import { dispatchMessage, expectsReply, ParsedPayload, parsePayload } from './jsonrpc.js';
+
+const logger = rootLogger.child('transport.http');
+
+const SESSION_HEADER = 'mcp-session-id';
+
+export interface HttpTransportOptions {
+  port: number;
+  host: string;
+  path?: string;
+  allowedOrigins?: string[];
+  /**
+   * Sessions without messages or an open GET stream for this long are closed (0 keeps them)
+   */
+  sessionIdleTimeoutMs?: number;
+}
+
+interface HttpSession {
+  id: string;
+  lastMessageAt: number;
+  /** Requests still being handled */
+  pending: number;
+  stream?: ServerResponse;
+}
+
+/**
+ * MCP Streamable HTTP transport: a single endpoint accepting POSTed JSON-RPC
+ * messages (answered as JSON or an SSE stream), a GET SSE stream for
+ * server-initiated messages and DELETE to end a session.
+ */
+export class StreamableHttpTransport implements Transport {
+  private server?: Server;
+  private sessions = new Map<string, HttpSession>();
+  private path: string;
+  private idleTimer?: NodeJS.Timeout;
+
+  constructor(
+    private handler: MessageHandler,
+    private options: HttpTransportOptions
+  ) {
+    this.path = options.path ?? '/mcp';
+  }
+
+  async start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      this.handleHttpRequest(req, res).catch(error => {
+        logger.error('Unhandled HTTP transport error:', error);
+        if (!res.headersSent) {
+          writeJsonError(res, 500, -32603, 'Internal error');
+        } else {
+          res.end();
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.options.port, this.options.host, () => {
+        this.server!.off('error', reject);
+        resolve();
+      });
+    });
+
+    const idleTimeoutMs = this.options.sessionIdleTimeoutMs ?? 0;
+    if (idleTimeoutMs > 0) {
+      this.idleTimer = setInterval(
+        () => this.closeIdleSessions(idleTimeoutMs),
+        Math.min(idleTimeoutMs, 60000)
+      );
+      this.idleTimer.unref();
+    }
+
+    const { port } = this.address();
+    logger.info(`Listening on http://${this.options.host}:${port}${this.path}`);
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.idleTimer);
+    for (const session of this.sessions.values()) {
+      session.stream?.end();
+    }
+    this.sessions.clear();
+
+    if (this.server) {
+      await new Promise<void>(resolve => this.server!.close(() => resolve()));
+      this.server = undefined;
+    }
+  }
+
+  address(): AddressInfo {
+    return this.server?.address() as AddressInfo;
+  }
+
+  private async handleHttpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname !== this.path) {
+      writeJsonError(res, 404, -32601, `Not found: ${url.pathname}`);
+      return;
+    }
+
+    if (!isOriginAllowed(req, this.options.allowedOrigins)) {
+      logger.security(`Rejected request from origin ${req.headers.origin}`);
+      writeJsonError(res, 403, -32600, 'Origin not allowed');
+      return;
+    }
+
+    switch (req.method) {
+      case 'POST':
+        await this.handlePost(req, res);
+        break;
+
+      case 'GET':
+        this.handleGet(req, res);
+        break;
+
+      case 'DELETE':
+        this.handleDelete(req, res);
+        break;
+
+      default:
+        res.setHeader('Allow', 'GET, POST, DELETE');
+        writeJsonError(res, 405, -32600, 'Method not allowed');
+    }
+  }
+
+  private async handlePost(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let payload: ParsedPayload;
+    try {
+      payload = parsePayload(await readBody(req));
+    } catch (error) {
+      logger.error('Failed to parse HTTP request body:', error);
+      writeJsonError(res, 400, -32700, 'Parse error');
+      return;
+    }
+
+    const { batch: isBatch, messages } = payload;
+    const [first] = messages;
+    if (!isBatch && first.type === 'invalid') {
+      res
+        .writeHead(400, { 'Content-Type': 'application/json' })
+        .end(JSON.stringify(first.error.toMCPResponse(first.id)));
+      return;
+    }
+
+    let session: HttpSession | undefined;
+    const initializing = messages.some(
+      m => m.type === 'request' && m.message.method === 'initialize'
+    );
+    if (initializing) {
+      if (messages.length > 1) {
+        writeJsonError(res, 400, -32600, 'Invalid request: initialize must not be batched');
+        return;
+      }
+      // Registered only once initialize succeeds
+      session = this.openSession();
+    } else {
+      session = this.resolveSession(req, res);
+      if (!session) {
+        return;
+      }
+      res.setHeader('Mcp-Session-Id', session.id);
+    }
+
+    session.lastMessageAt = Date.now();
+
+    if (!messages.some(expectsReply)) {
+      // Only notifications or responses: acknowledge without a body
+      for (const message of messages) {
+        dispatchMessage(this.handler, message, { sessionId: session.id, send: () => undefined });
+      }
+      res.writeHead(202).end();
+      return;
+    }
+
+    // initialize is answered as JSON, so the session header can wait for its outcome
+    const useSse = !initializing && (req.headers.accept ?? '').includes('text/event-stream');
+    const responses: MCPResponse[] = [];
+    let open = true;
+
+    if (useSse) {
+      openEventStream(res);
+    }
+
+    const reply = (message: OutgoingMessage) => {
+      if (open && useSse) {
+        writeEvent(res, message);
+      } else if (open && 'id' in message) {
+        responses.push(message);
+      } else {
+        // The POST stream is gone, fall back to the session's GET stream
+        this.notifySession(session!, message);
+      }
+    };
+
+    session.pending++;
+    try {
+      await Promise.all(
+        messages.map(message =>
+          dispatchMessage(this.handler, message, { sessionId: session!.id, send: reply })
+        )
+      );
+    } finally {
+      session.pending--;
+      session.lastMessageAt = Date.now();
+    }
+    open = false;
+
+    if (useSse) {
+      res.end();
+      return;
+    }
+
+    if (initializing) {
+      if (responses[0] && 'result' in responses[0]) {
+        this.sessions.set(session.id, session);
+        res.setHeader('Mcp-Session-Id', session.id);
+        logger.debug(`HTTP session opened: ${session.id}`);
+      } else {
+        this.handler.closeSession?.(session.id);
+      }
+    }
+
+    const body = isBatch ? responses : responses[0];
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+  }
+
+  private handleGet(req: IncomingMessage, res: ServerResponse): void {
+    if (!(req.headers.accept ?? '').includes('text/event-stream')) {
+      res.setHeader('Allow', 'POST, DELETE');
+      writeJsonError(res, 405, -32600, 'GET requires Accept: text/event-stream');
+      return;
+    }
+
+    const session = this.resolveSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    if (session.stream) {
+      writeJsonError(res, 409, -32600, 'An SSE stream is already open for this session');
+      return;
+    }
+
+    res.setHeader('Mcp-Session-Id', session.id);
+    openEventStream(res);
+    session.stream = res;
+    session.lastMessageAt = Date.now();
+
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL);
+    res.on('close', () => {
+      clearInterval(keepAlive);
+      if (session.stream === res) {
+        session.stream = undefined;
+        session.lastMessageAt = Date.now();
+      }
+    });
+
+    logger.debug(`SSE stream opened for session ${session.id}`);
+  }
+
+  private handleDelete(req: IncomingMessage, res: ServerResponse): void {
+    const session = this.resolveSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    this.closeSession(session);
+    logger.debug(`HTTP session closed: ${session.id}`);
+    res.writeHead(204).end();
+  }
+
+  private openSession(): HttpSession {
+    const session: HttpSession = { id: randomUUID(), lastMessageAt: Date.now(), pending: 0 };
+    this.handler.openSession?.(session.id, message => this.notifySession(session, message));
+    return session;
+  }
+
+  private closeSession(session: HttpSession): void {
+    session.stream?.end();
+    this.sessions.delete(session.id);
+    this.handler.closeSession?.(session.id);
+  }
+
+  /**
+   * Close sessions whose client has gone away without a DELETE: no messages
+   * for the idle timeout, no open GET stream and no requests in flight
+   */
+  private closeIdleSessions(idleTimeoutMs: number): void {
+    const cutoff = Date.now() - idleTimeoutMs;
+    for (const session of this.sessions.values()) {
+      if (!session.stream && !session.pending && session.lastMessageAt <= cutoff) {
+        this.closeSession(session);
+        logger.debug(`HTTP session expired after being idle: ${session.id}`);
+      }
+    }
+  }
+
+  private resolveSession(req: IncomingMessage, res: ServerResponse): HttpSession | undefined {
+    const sessionId = req.headers[SESSION_HEADER];
+    if (typeof sessionId !== 'string' || !sessionId) {
+      writeJsonError(res, 400, -32600, 'Bad request: Mcp-Session-Id header is required');
+      return undefined;
+    }
+
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      writeJsonError(res, 404, -32001, 'Session not found');
+      return undefined;
+    }
+
+    return session;
+  }
+
+  private notifySession(session: HttpSession, message: OutgoingMessage): void {
+    if (session.stream) {
+      writeEvent(session.stream, message);
+    } else {
+      logger.debug(`Dropping message for session ${session.id}: no open stream`);
+    }
+  }
+}
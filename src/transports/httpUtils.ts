@@ -0,0 +1,70 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { MCPResponse, NotificationMessage } from '../types.js';
+
+const MAX_BODY_BYTES = 20 * 1024 * 1024; // 20MB, enough for base64 images
+export const KEEP_ALIVE_INTERVAL = 25000;
+
+export type OutgoingMessage = MCPResponse | NotificationMessage;
+
+/**
+ * Read a request body as UTF-8, rejecting bodies over the size limit
+ */
+export function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Check the Origin header against an allow-list (empty list allows any origin)
+ */
+export function isOriginAllowed(req: IncomingMessage, allowedOrigins: string[] = []): boolean {
+  const origin = req.headers.origin;
+  return !origin || allowedOrigins.length === 0 || allowedOrigins.includes(origin);
+}
+
+/**
+ * Start a Server-Sent Events response
+ */
+export function openEventStream(res: ServerResponse): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  res.flushHeaders();
+}
+
+/**
+ * Write a single SSE event
+ */
+export function writeEvent(
+  res: ServerResponse,
+  data: OutgoingMessage | MCPResponse[] | string,
+  event = 'message'
+) {
+  const payload = typeof data === 'string' ? data : JSON.stringify(data);
+  res.write(`event: ${event}\ndata: ${payload}\n\n`);
+}
+
+/**
+ * Answer with a JSON-RPC error body that is not tied to any request ID
+ */
+export function writeJsonError(res: ServerResponse, status: number, code: number, message: string) {
+  res
+    .writeHead(status, { 'Content-Type': 'application/json' })
+    .end(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code, message } }));
+}
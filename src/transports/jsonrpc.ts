@@ -0,0 +1,131 @@
+import {
+  MCPRequest,
+  MCPResponse,
+  MessageHandler,
+  NotificationMessage,
+  RequestContext
+} from '../types.js';
+import { logger } from '../utils/logger.js';
+import { InvalidRequestError, MCPError, ParseError } from '../utils/errors.js';
+
+export type InboundMessage =
+  | { type: 'request'; message: MCPRequest }
+  | { type: 'notification'; message: NotificationMessage }
+  | { type: 'response'; message: MCPResponse }
+  | { type: 'invalid'; id: string | number | null; error: MCPError };
+
+export interface ParsedPayload {
+  batch: boolean;
+  messages: InboundMessage[];
+}
+
+function isId(value: unknown): value is string | number {
+  return typeof value === 'string' || typeof value === 'number';
+}
+
+function invalid(id: string | number | null, message: string): InboundMessage {
+  return { type: 'invalid', id, error: new InvalidRequestError(`Invalid Request: ${message}`) };
+}
+
+/**
+ * Sort one decoded JSON value into request, notification, response to a
+ * server-initiated request, or invalid message (answered with -32600)
+ */
+export function classifyMessage(value: unknown): InboundMessage {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return invalid(null, 'message must be an object');
+  }
+
+  const message = value as Record<string, any>;
+  const id = isId(message.id) ? message.id : null;
+
+  if (message.jsonrpc !== '2.0') {
+    return invalid(id, 'jsonrpc must be "2.0"');
+  }
+
+  if ('method' in message) {
+    if (typeof message.method !== 'string' || !message.method) {
+      return invalid(id, 'method must be a non-empty string');
+    }
+    if (message.params !== undefined && (typeof message.params !== 'object' || !message.params)) {
+      return invalid(id, 'params must be an object or array');
+    }
+    if (!('id' in message)) {
+      return { type: 'notification', message: message as NotificationMessage };
+    }
+    if (!isId(message.id)) {
+      return invalid(null, 'id must be a string or number');
+    }
+    return { type: 'request', message: message as MCPRequest };
+  }
+
+  if ('id' in message && ('result' in message || 'error' in message)) {
+    return { type: 'response', message: message as MCPResponse };
+  }
+
+  return invalid(id, 'expected a request, notification or response');
+}
+
+/**
+ * Decode a JSON-RPC payload: a single message or a batch array.
+ * Throws ParseError if the text is not JSON.
+ */
+export function parsePayload(text: string): ParsedPayload {
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new ParseError();
+  }
+
+  if (!Array.isArray(body)) {
+    return { batch: false, messages: [classifyMessage(body)] };
+  }
+
+  // An empty batch gets a single error, not an empty array
+  if (body.length === 0) {
+    return { batch: false, messages: [invalid(null, 'empty batch')] };
+  }
+
+  return { batch: true, messages: body.map(classifyMessage) };
+}
+
+/**
+ * Whether a message needs an answer (requests and invalid messages do)
+ */
+export function expectsReply(message: InboundMessage): boolean {
+  return message.type === 'request' || message.type === 'invalid';
+}
+
+/**
+ * Hand a classified message to the server. Invalid messages are answered
+ * with their error.
+ */
+export async function dispatchMessage(
+  handler: MessageHandler,
+  inbound: InboundMessage,
+  context: RequestContext
+): Promise<void> {
+  switch (inbound.type) {
+    case 'invalid':
+      logger.warn(inbound.error.message, { id: inbound.id });
+      context.send(inbound.error.toMCPResponse(inbound.id) as MCPResponse);
+      return;
+
+    case 'notification':
+      logger.request(`Received notification: ${inbound.message.method}`);
+      await handler.handleNotification?.(inbound.message, context);
+      return;
+
+    case 'response':
+      logger.request(`Received response (ID: ${inbound.message.id})`);
+      await handler.handleResponse?.(inbound.message, context);
+      return;
+
+    case 'request': {
+      const request = inbound.message;
+      logger.request(`Received request: ${request.method} (ID: ${request.id})`);
+      await handler.handleRequest(request, context);
+    }
+  }
+}
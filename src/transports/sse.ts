@@ -0,0 +1,173 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { MCPResponse, MessageHandler, Transport } from '../types.js';
+import { logger as rootLogger } from '../utils/logger.js';
+import {
+  isOriginAllowed,
+  KEEP_ALIVE_INTERVAL,
+  openEventStream,
+  OutgoingMessage,
+  readBody,
+  writeEvent,
+  writeJsonError
+} from './httpUtils.js';
+import { dispatchMessage, ParsedPayload, parsePayload } from './jsonrpc.js';
+
+const logger = rootLogger.child('transport.sse');
+
+export interface SseTransportOptions {
+  port: number;
+  host: string;
+  allowedOrigins?: string[];
+}
+
+interface SseSession {
+  id: string;
+  stream: ServerResponse;
+}
+
+/**
+ * Legacy HTTP+SSE transport (protocol 2024-11-05): clients open `GET /sse`,
+ * receive an `endpoint` event naming `/messages?sessionId=...`, POST JSON-RPC
+ * messages there and read every reply from their own SSE stream.
+ */
+export class LegacySseTransport implements Transport {
+  private server?: Server;
+  private sessions = new Map<string, SseSession>();
+
+  constructor(
+    private handler: MessageHandler,
+    private options: SseTransportOptions
+  ) {}
+
+  async start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      this.handleHttpRequest(req, res).catch(error => {
+        logger.error('Unhandled SSE transport error:', error);
+        if (!res.headersSent) {
+          writeJsonError(res, 500, -32603, 'Internal error');
+        } else {
+          res.end();
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.options.port, this.options.host, () => {
+        this.server!.off('error', reject);
+        resolve();
+      });
+    });
+
+    const { port } = this.address();
+    logger.info(`Listening on http://${this.options.host}:${port}/sse`);
+  }
+
+  async close(): Promise<void> {
+    for (const session of this.sessions.values()) {
+      session.stream.end();
+    }
+    this.sessions.clear();
+
+    if (this.server) {
+      await new Promise<void>(resolve => this.server!.close(() => resolve()));
+      this.server = undefined;
+    }
+  }
+
+  address(): AddressInfo {
+    return this.server?.address() as AddressInfo;
+  }
+
+  private async handleHttpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (!isOriginAllowed(req, this.options.allowedOrigins)) {
+      logger.security(`Rejected request from origin ${req.headers.origin}`);
+      writeJsonError(res, 403, -32600, 'Origin not allowed');
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/sse') {
+      this.openSession(res);
+    } else if (req.method === 'POST' && url.pathname === '/messages') {
+      await this.handleMessage(url, req, res);
+    } else {
+      writeJsonError(res, 404, -32601, `Not found: ${req.method} ${url.pathname}`);
+    }
+  }
+
+  private openSession(res: ServerResponse): void {
+    const session: SseSession = { id: randomUUID(), stream: res };
+    this.sessions.set(session.id, session);
+
+    openEventStream(res);
+    writeEvent(res, `/messages?sessionId=${session.id}`, 'endpoint');
+    this.handler.openSession?.(session.id, message => {
+      if (!res.writableEnded) {
+        writeEvent(res, message);
+      }
+    });
+
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL);
+    res.on('close', () => {
+      clearInterval(keepAlive);
+      this.sessions.delete(session.id);
+      this.handler.closeSession?.(session.id);
+      logger.debug(`SSE session closed: ${session.id}`);
+    });
+
+    logger.debug(`SSE session opened: ${session.id}`);
+  }
+
+  private async handleMessage(url: URL, req: IncomingMessage, res: ServerResponse) {
+    const sessionId = url.searchParams.get('sessionId');
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session) {
+      writeJsonError(res, 404, -32001, 'Session not found');
+      return;
+    }
+
+    let payload: ParsedPayload;
+    try {
+      payload = parsePayload(await readBody(req));
+    } catch (error) {
+      logger.error('Failed to parse SSE message body:', error);
+      writeJsonError(res, 400, -32700, 'Parse error');
+      return;
+    }
+
+    // Replies travel over the session's SSE stream, not this POST
+    res.writeHead(202).end('Accepted');
+
+    // Replies to a batch go out together as one array event; notifications
+    // sent while it is processed are written immediately
+    const replies: MCPResponse[] = [];
+    const write = (data: OutgoingMessage | MCPResponse[]) => {
+      if (!session.stream.writableEnded) {
+        writeEvent(session.stream, data);
+      }
+    };
+
+    await Promise.all(
+      payload.messages.map(message =>
+        dispatchMessage(this.handler, message, {
+          sessionId: session.id,
+          send: reply => {
+            if (payload.batch && 'id' in reply) {
+              replies.push(reply);
+            } else {
+              write(reply);
+            }
+          }
+        })
+      )
+    );
+
+    if (replies.length > 0) {
+      write(replies);
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { createInterface, Interface } from 'readline';
+import { MCPResponse, MessageHandler, NotificationMessage, Transport } from '../types.js';
+import { logger as rootLogger } from '../utils/logger.js';
+import { ParseError } from '../utils/errors.js';
+import { dispatchMessage, ParsedPayload, parsePayload } from './jsonrpc.js';
+
+const logger = rootLogger.child('transport.stdio');
+
+const STDIO_SESSION_ID = 'stdio';
+
+/**
+ * Newline-delimited JSON-RPC over stdin/stdout
+ */
+export class StdioTransport implements Transport {
+  private rl?: Interface;
+
+  constructor(private handler: MessageHandler) {}
+
+  async start(): Promise<void> {
+    // Increase max buffer size for large images (10MB)
+    if (process.stdin.setEncoding) {
+      process.stdin.setEncoding('utf8');
+    }
+
+    this.rl = createInterface({
+      input: process.stdin,
+      output: process.stdout,
+      terminal: false,
+      // Increase max line length for large image data
+      crlfDelay: Infinity
+    });
+
+    this.rl.on('line', line => {
+      if (line.trim()) {
+        this.handleLine(line).catch(error => logger.error('Failed to handle message:', error));
+      }
+    });
+
+    process.stdin.on('error', err => {
+      console.error('stdin error:', err);
+    });
+
+    this.handler.openSession?.(STDIO_SESSION_ID, message => this.write(message));
+
+    logger.info('Listening on stdio interface...');
+  }
+
+  async close(): Promise<void> {
+    this.rl?.close();
+  }
+
+  private async handleLine(line: string): Promise<void> {
+    let payload: ParsedPayload;
+    try {
+      payload = parsePayload(line);
+    } catch (error) {
+      logger.error('Failed to parse message:', error);
+      this.write(new ParseError().toMCPResponse(null) as MCPResponse);
+      return;
+    }
+
+    // Replies to a batch go out together as one array; notifications sent
+    // while it is processed (progress, logs) are written immediately
+    const replies: MCPResponse[] = [];
+    const send = (message: MCPResponse | NotificationMessage) => {
+      if (payload.batch && 'id' in message) {
+        replies.push(message);
+      } else {
+        this.write(message);
+      }
+    };
+
+    await Promise.all(
+      payload.messages.map(message =>
+        dispatchMessage(this.handler, message, { sessionId: STDIO_SESSION_ID, send })
+      )
+    );
+
+    if (replies.length > 0) {
+      this.write(replies);
+    }
+  }
+
+  private write(message: MCPResponse | NotificationMessage | MCPResponse[]): void {
+    process.stdout.write(`${JSON.stringify(message)}\n`);
+  }
+}
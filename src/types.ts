@@ -32,6 +32,27 @@ export interface ConnectionState {
   ip: string;
 }
 
+// Transport Types
+export interface RequestContext {
+  sessionId: string;
+  send(message: MCPResponse | NotificationMessage): void;
+  signal?: AbortSignal;
+  progressToken?: string | number;
+}
+
+export interface MessageHandler {
+  handleRequest(request: MCPRequest, context: RequestContext): Promise<void>;
+  handleNotification?(notification: NotificationMessage, context: RequestContext): void;
+  handleResponse?(response: MCPResponse, context: RequestContext): void;
+  openSession?(sessionId: string, notify: (message: NotificationMessage) => void): void;
+  closeSession?(sessionId: string): void;
+}
+
+export interface Transport {
+  start(): Promise<void>;
+  close(): Promise<void>;
+}
+
 // Notification Types
 export interface NotificationMessage {
   jsonrpc: '2.0';
@@ -39,6 +60,23 @@ export interface NotificationMessage {
   params?: any;
 }
 
+// Logging Types (syslog severities, least to most severe)
+export type LoggingLevel =
+  | 'debug'
+  | 'info'
+  | 'notice'
+  | 'warning'
+  | 'error'
+  | 'critical'
+  | 'alert'
+  | 'emergency';
+
+export interface LoggingMessageParams {
+  level: LoggingLevel;
+  logger?: string;
+  data: any;
+}
+
 export interface ErrorNotification extends NotificationMessage {
   method: 'notifications/error';
   params: {
@@ -52,6 +90,7 @@ export interface ProgressParams {
   progressToken: string | number;
   progress: number;
   total?: number;
+  message?: string;
 }
 
 export interface ProgressNotification extends NotificationMessage {
@@ -102,10 +141,11 @@ export interface StreamResponse extends MCPResponse {
   };
 }
 
-export interface CancelRequest extends MCPRequest {
-  method: 'cancel';
+export interface CancelledNotification extends NotificationMessage {
+  method: 'notifications/cancelled';
   params: {
     requestId: string | number;
+    reason?: string;
   };
 }
 
@@ -141,6 +181,7 @@ export interface ServerCapabilities {
     listChanged?: boolean;
   };
   logging?: Record<string, any>;
+  completions?: Record<string, any>;
 }
 
 export interface InitializeResult {
@@ -149,6 +190,21 @@ export interface InitializeResult {
   capabilities: ServerCapabilities;
 }
 
+export interface ProtocolFeatures {
+  toolAnnotations: boolean;
+  structuredToolOutput: boolean;
+  elicitation: boolean;
+}
+
+export interface SessionState {
+  protocolVersion: string;
+  features: ProtocolFeatures;
+  clientInfo?: ServerInfo;
+  clientCapabilities: Record<string, any>;
+  logLevel: LoggingLevel;
+  initializedAt: Date;
+}
+
 // Lifecycle Types
 export interface ShutdownRequest extends MCPRequest {
   method: 'shutdown';
@@ -158,14 +214,63 @@ export interface ExitNotification extends NotificationMessage {
   method: 'exit';
 }
 
+// Tool Types
+export interface ToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  annotations?: ToolAnnotations;
+  inputSchema: Record<string, any>;
+  outputSchema?: Record<string, any>;
+}
+
+// Prompt Types
+export interface PromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: {
+    type: 'text';
+    text: string;
+  };
+}
+
+export interface GetPromptResult {
+  description?: string;
+  messages: PromptMessage[];
+  _meta?: Record<string, any>;
+}
+
+export interface PromptDefinition {
+  name: string;
+  description?: string;
+  arguments?: Array<PromptArgument & { values?: string[]; suggestions?: string[] }>;
+  defaults?: {
+    model?: string;
+    temperature?: number;
+  };
+  render(args: Record<string, string>): PromptMessage[];
+}
+
 // Resource and Prompt References (for interfaces)
 export interface ResourceReference {
-  type: 'resource';
+  type: 'ref/resource';
   uri: string;
 }
 
 export interface PromptReference {
-  type: 'prompt';
+  type: 'ref/prompt';
   name: string;
 }
 
@@ -174,11 +279,16 @@ export interface CompletionArgument {
   value: string;
 }
 
+export interface CompleteParams {
+  ref: PromptReference | ResourceReference;
+  argument: CompletionArgument;
+  context?: {
+    arguments?: Record<string, string>;
+  };
+}
+
 export interface Completion {
-  values: Array<{
-    value: string;
-    description?: string;
-  }>;
+  values: string[];
   total?: number;
   hasMore?: boolean;
 }
@@ -0,0 +1,127 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /**
+   * Consecutive failures that open the circuit
+   */
+  failureThreshold?: number;
+  /**
+   * How long the circuit stays open before letting a probe through
+   */
+  resetTimeoutMs?: number;
+  /**
+   * Probes allowed at once while half-open
+   */
+  halfOpenMaxCalls?: number;
+  now?: () => number;
+}
+
+/**
+ * Classic three-state circuit breaker. Closed, calls go through and
+ * consecutive failures are counted; at the threshold the circuit opens and
+ * calls are refused. Once the reset timeout has passed it is half-open: a
+ * limited number of probes go through, and the first result decides whether
+ * it closes again or reopens.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private probes = 0;
+  private failureThreshold: number;
+  private resetTimeoutMs: number;
+  private halfOpenMaxCalls: number;
+  private now: () => number;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+    this.halfOpenMaxCalls = options.halfOpenMaxCalls ?? 1;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Ask to make a call. Every granted call must be followed by
+   * `recordSuccess`, `recordFailure` or `release`.
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'open' && this.now() - this.openedAt >= this.resetTimeoutMs) {
+      this.state = 'half-open';
+      this.probes = 0;
+    }
+
+    if (this.state === 'closed') {
+      return true;
+    }
+    if (this.state === 'half-open' && this.probes < this.halfOpenMaxCalls) {
+      this.probes++;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.probes = 0;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = this.now();
+      this.probes = 0;
+    }
+  }
+
+  /**
+   * End a granted call without a verdict, such as one the client cancelled
+   */
+  release(): void {
+    if (this.state === 'half-open' && this.probes > 0) {
+      this.probes--;
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Milliseconds until an open circuit lets a probe through (0 otherwise)
+   */
+  retryInMs(): number {
+    return this.state === 'open'
+      ? Math.max(0, this.openedAt + this.resetTimeoutMs - this.now())
+      : 0;
+  }
+
+  snapshot() {
+    return { state: this.state, failures: this.failures };
+  }
+}
+
+/**
+ * One circuit breaker per key (model name), created on first use
+ */
+export class CircuitBreakerRegistry {
+  private breakers = new Map<string, CircuitBreaker>();
+
+  constructor(private options: CircuitBreakerOptions = {}) {}
+
+  get(key: string): CircuitBreaker {
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.options);
+      this.breakers.set(key, breaker);
+    }
+    return breaker;
+  }
+
+  snapshot(): Record<string, { state: CircuitState; failures: number }> {
+    return Object.fromEntries(
+      [...this.breakers].map(([key, breaker]) => [key, breaker.snapshot()])
+    );
+  }
+}
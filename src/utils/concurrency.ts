@@ -0,0 +1,148 @@
+import { config } from '../config/index.js';
+import { QueueFullError } from './errors.js';
+
+export interface ConcurrencyLimiterOptions {
+  /**
+   * Calls in flight at once per key, unless the key has its own limit
+   */
+  maxInFlight?: number;
+  /**
+   * Per-key overrides of `maxInFlight`
+   */
+  limits?: Record<string, number>;
+  /**
+   * Calls that may wait per key; more are rejected with a QueueFullError
+   */
+  maxQueueSize?: number;
+  now?: () => number;
+}
+
+interface Waiter {
+  grant(): void;
+}
+
+interface Lane {
+  inFlight: number;
+  queue: Waiter[];
+}
+
+/**
+ * Caps the calls in flight per key (model name). Calls over the cap wait in
+ * a bounded FIFO queue and start as slots free up; when the queue is full
+ * they are rejected straight away.
+ */
+export class ConcurrencyLimiter {
+  private lanes = new Map<string, Lane>();
+  private listeners = new Set<(key: string, waitMs: number) => void>();
+  private maxInFlight: number;
+  private limits: Record<string, number>;
+  private maxQueueSize: number;
+  private now: () => number;
+
+  constructor(options: ConcurrencyLimiterOptions = {}) {
+    this.maxInFlight = options.maxInFlight ?? 4;
+    this.limits = options.limits ?? {};
+    this.maxQueueSize = options.maxQueueSize ?? 100;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Run the operation once a slot for the key is free. Resolves with the
+   * operation's result and the time spent waiting for the slot.
+   */
+  async run<T>(
+    key: string,
+    operation: () => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<{ result: T; waitMs: number }> {
+    const waitMs = await this.acquire(key, signal);
+    try {
+      return { result: await operation(), waitMs };
+    } finally {
+      this.release(key);
+    }
+  }
+
+  /**
+   * Be told how long each call waited for its slot; returns an unsubscribe function
+   */
+  onAcquire(listener: (key: string, waitMs: number) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  limitFor(key: string): number {
+    return this.limits[key] ?? this.maxInFlight;
+  }
+
+  snapshot(): Record<string, { inFlight: number; queued: number; limit: number }> {
+    return Object.fromEntries(
+      [...this.lanes].map(([key, lane]) => [
+        key,
+        { inFlight: lane.inFlight, queued: lane.queue.length, limit: this.limitFor(key) }
+      ])
+    );
+  }
+
+  private async acquire(key: string, signal?: AbortSignal): Promise<number> {
+    signal?.throwIfAborted();
+    const lane = this.lanes.get(key) ?? { inFlight: 0, queue: [] };
+    this.lanes.set(key, lane);
+
+    const startedAt = this.now();
+    if (lane.inFlight < this.limitFor(key)) {
+      lane.inFlight++;
+    } else if (lane.queue.length >= this.maxQueueSize) {
+      throw new QueueFullError(key, {
+        queueDepth: lane.queue.length,
+        maxQueueSize: this.maxQueueSize,
+        inFlight: lane.inFlight
+      });
+    } else {
+      await new Promise<void>((resolve, reject) => {
+        const waiter: Waiter = {
+          grant: () => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+          }
+        };
+        const onAbort = () => {
+          lane.queue.splice(lane.queue.indexOf(waiter), 1);
+          reject(signal?.reason);
+        };
+        lane.queue.push(waiter);
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+    }
+
+    const waitMs = this.now() - startedAt;
+    this.listeners.forEach(listener => listener(key, waitMs));
+    return waitMs;
+  }
+
+  /**
+   * Hand the slot to the next waiter, if any; it keeps the in-flight count
+   */
+  private release(key: string): void {
+    const lane = this.lanes.get(key);
+    if (!lane) {
+      return;
+    }
+
+    const next = lane.queue.shift();
+    if (next) {
+      next.grant();
+      return;
+    }
+    lane.inFlight--;
+    if (lane.inFlight === 0) {
+      this.lanes.delete(key);
+    }
+  }
+}
+
+export const concurrencyLimiter = new ConcurrencyLimiter({
+  maxInFlight: config.maxConcurrentRequests,
+  limits: config.modelConcurrency,
+  maxQueueSize: config.maxQueueSize
+});
@@ -0,0 +1,62 @@
+export interface ConversationChange {
+  namespace: string;
+  conversationId: string;
+  type: 'created' | 'updated';
+}
+
+/**
+ * In-memory conversation history, partitioned by namespace so that clients on
+ * different transport sessions cannot read each other's conversations.
+ */
+export class ConversationStore {
+  private namespaces = new Map<string, Map<string, any[]>>();
+
+  constructor(private onChange: (change: ConversationChange) => void = () => undefined) {}
+
+  /**
+   * Get the history of a conversation (empty if it does not exist)
+   */
+  get(namespace: string, conversationId: string): any[] {
+    return [...(this.namespaces.get(namespace)?.get(conversationId) ?? [])];
+  }
+
+  /**
+   * Check whether a conversation exists
+   */
+  has(namespace: string, conversationId: string): boolean {
+    return this.namespaces.get(namespace)?.has(conversationId) ?? false;
+  }
+
+  /**
+   * Append entries to a conversation, creating it if needed
+   */
+  append(namespace: string, conversationId: string, ...entries: any[]): void {
+    let conversations = this.namespaces.get(namespace);
+    if (!conversations) {
+      conversations = new Map();
+      this.namespaces.set(namespace, conversations);
+    }
+
+    const existing = conversations.get(conversationId);
+    const history = existing ?? [];
+    history.push(...entries);
+    conversations.set(conversationId, history);
+
+    this.onChange({ namespace, conversationId, type: existing ? 'updated' : 'created' });
+  }
+
+  /**
+   * List conversation IDs in a namespace
+   */
+  list(namespace: string): string[] {
+    return [...(this.namespaces.get(namespace)?.keys() ?? [])];
+  }
+
+  /**
+   * Drop every conversation in a namespace (without change events; the
+   * namespace's session is going away)
+   */
+  clearNamespace(namespace: string): void {
+    this.namespaces.delete(namespace);
+  }
+}
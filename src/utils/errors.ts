@@ -25,6 +25,20 @@ export class MCPError extends Error {
   }
 }
 
+export class ParseError extends MCPError {
+  constructor(message: string = 'Parse error') {
+    super(message, -32700);
+    this.name = 'ParseError';
+  }
+}
+
+export class InvalidRequestError extends MCPError {
+  constructor(message: string = 'Invalid Request') {
+    super(message, -32600);
+    this.name = 'InvalidRequestError';
+  }
+}
+
 export class ValidationError extends MCPError {
   constructor(message: string, data?: any) {
     super(message, -32602, data);
@@ -39,21 +53,119 @@ export class AuthenticationError extends MCPError {
   }
 }
 
-export class RateLimitError extends MCPError {
-  constructor(message: string = 'Rate limit exceeded') {
-    super(message, -32002);
+/**
+ * Base class for failures while a tool runs: Gemini API errors, blocked
+ * content, unusable input data. `tools/call` reports these in the result with
+ * `isError: true` so the calling model can react; every other MCPError stays
+ * a JSON-RPC protocol error.
+ */
+export class ToolExecutionError extends MCPError {
+  constructor(message: string, code: number = -32603, data?: any) {
+    super(message, code, data);
+    this.name = 'ToolExecutionError';
+  }
+
+  toToolResult() {
+    const details = this.data instanceof Error ? undefined : this.data;
+    return {
+      content: [{ type: 'text', text: this.message }],
+      isError: true,
+      metadata: {
+        error: {
+          type: this.name,
+          code: this.code,
+          ...(details && { details })
+        }
+      }
+    };
+  }
+}
+
+/**
+ * A tool call or its Gemini call went over a rate limit. It is reported in
+ * the tool result, so the calling model can see when to try again.
+ */
+export class RateLimitError extends ToolExecutionError {
+  constructor(
+    message: string = 'Rate limit exceeded',
+    data?: { scope: string; limit: number; retryAfterMs: number }
+  ) {
+    super(message, -32002, data);
     this.name = 'RateLimitError';
   }
 }
 
-export class TimeoutError extends MCPError {
-  constructor(message: string = 'Request timeout') {
-    super(message, -32003);
+export class TimeoutError extends ToolExecutionError {
+  constructor(
+    message: string = 'Request timeout',
+    data?: { elapsedMs: number; timeoutMs: number }
+  ) {
+    super(message, -32003, data);
     this.name = 'TimeoutError';
   }
 }
 
-export class GeminiAPIError extends MCPError {
+export class ContentBlockedError extends ToolExecutionError {
+  constructor(
+    message: string,
+    data: { blockReason?: string; finishReason?: string; safetyRatings?: any[] }
+  ) {
+    super(message, -32603, data);
+    this.name = 'ContentBlockedError';
+  }
+}
+
+/**
+ * The model's circuit breaker is open after repeated failures, and no
+ * fallback model could take the call
+ */
+export class CircuitOpenError extends ToolExecutionError {
+  constructor(model: string, retryInMs: number) {
+    super(
+      `${model} is temporarily unavailable after repeated failures (retry in ${Math.ceil(retryInMs / 1000)}s)`,
+      -32603,
+      { model, retryInMs }
+    );
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Too many calls for a model are already waiting for a slot
+ */
+export class QueueFullError extends ToolExecutionError {
+  constructor(model: string, data: { queueDepth: number; maxQueueSize: number; inFlight: number }) {
+    super(
+      `Too many concurrent requests for ${model}: ${data.inFlight} in flight and ${data.queueDepth} queued (queue limit ${data.maxQueueSize})`,
+      -32603,
+      { model, ...data }
+    );
+    this.name = 'QueueFullError';
+  }
+}
+
+/**
+ * A streamed response failed after part of it was sent as progress. It is not
+ * retried, since a new attempt would send that text again.
+ */
+export class StreamInterruptedError extends ToolExecutionError {
+  constructor(chunks: number, cause: MCPError) {
+    super(`Stream interrupted after ${chunks} chunks: ${cause.message}`, cause.code, {
+      chunks,
+      error: cause.name
+    });
+    this.name = 'StreamInterruptedError';
+  }
+}
+
+export class ResourceNotFoundError extends MCPError {
+  constructor(uri: string) {
+    super(`Resource not found: ${uri}`, -32002, { uri });
+    this.name = 'ResourceNotFoundError';
+  }
+}
+
+export class GeminiAPIError extends ToolExecutionError {
   constructor(
     message: string,
     public originalError?: any
@@ -64,13 +176,67 @@ export class GeminiAPIError extends MCPError {
   }
 }
 
+export class QuotaExceededError extends GeminiAPIError {
+  constructor(
+    message: string,
+    originalError: any,
+    public quota: { quotaMetric?: string; quotaId?: string; retryDelay?: string } = {}
+  ) {
+    super(message, originalError);
+    this.name = 'QuotaExceededError';
+    this.data = { status: originalError?.status ?? 'RESOURCE_EXHAUSTED', ...quota };
+  }
+}
+
+/**
+ * Finish reasons meaning Gemini withheld the response
+ */
+const BLOCKING_FINISH_REASONS = [
+  'SAFETY',
+  'RECITATION',
+  'BLOCKLIST',
+  'PROHIBITED_CONTENT',
+  'SPII',
+  'IMAGE_SAFETY'
+];
+
+/**
+ * The SDK's ApiError carries the JSON error body in its message, sometimes
+ * after a "got status: ..." prefix
+ */
+function parseApiErrorBody(error: any): any {
+  const message = typeof error?.message === 'string' ? error.message : '';
+  const start = message.indexOf('{');
+  if (start === -1) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(message.slice(start));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Milliseconds in a protobuf Duration string such as "17s" or "0.5s"
+ */
+function parseDuration(duration: unknown): number | undefined {
+  const match = typeof duration === 'string' ? /^(\d+(?:\.\d+)?)s$/.exec(duration) : null;
+  return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+}
+
+function findDetail(geminiError: any, type: string): any {
+  return (geminiError.details ?? []).find((detail: any) => detail?.['@type']?.endsWith(type));
+}
+
 /**
  * Error handler utility functions
  */
 export class ErrorHandler {
   static handleGeminiError(error: any): GeminiAPIError {
-    if (error?.error) {
-      const geminiError = error.error;
+    const body = error?.error ? error : parseApiErrorBody(error);
+    if (body?.error) {
+      const geminiError = body.error;
       let message = 'Gemini API error';
 
       if (geminiError.message) {
@@ -79,12 +245,55 @@ export class ErrorHandler {
         message = `Gemini API error: ${geminiError.status}`;
       }
 
+      if (geminiError.status === 'RESOURCE_EXHAUSTED' || geminiError.code === 429) {
+        const violation = findDetail(geminiError, 'QuotaFailure')?.violations?.[0];
+        return new QuotaExceededError(message, geminiError, {
+          quotaMetric: violation?.quotaMetric,
+          quotaId: violation?.quotaId,
+          retryDelay: findDetail(geminiError, 'RetryInfo')?.retryDelay
+        });
+      }
+
       return new GeminiAPIError(message, geminiError);
     }
 
+    if (error instanceof Error) {
+      return new GeminiAPIError(error.message, error);
+    }
+
     return new GeminiAPIError('Unknown Gemini API error', error);
   }
 
+  /**
+   * Map any error thrown while running a tool onto the MCPError hierarchy;
+   * anything that is not already an MCPError came from the Gemini call
+   */
+  static toMCPError(error: unknown): MCPError {
+    return error instanceof MCPError ? error : this.handleGeminiError(error);
+  }
+
+  /**
+   * Throw ContentBlockedError when Gemini blocked the prompt or withheld the
+   * response for safety or recitation reasons
+   */
+  static assertNotBlocked(response: any): void {
+    const blockReason = response?.promptFeedback?.blockReason;
+    if (blockReason) {
+      throw new ContentBlockedError(`Prompt was blocked by Gemini (${blockReason})`, {
+        blockReason,
+        safetyRatings: response.promptFeedback.safetyRatings
+      });
+    }
+
+    const candidate = response?.candidates?.[0];
+    if (candidate && BLOCKING_FINISH_REASONS.includes(candidate.finishReason) && !response.text) {
+      throw new ContentBlockedError(
+        `Response was blocked by Gemini (finish reason: ${candidate.finishReason})`,
+        { finishReason: candidate.finishReason, safetyRatings: candidate.safetyRatings }
+      );
+    }
+  }
+
   static isRetryableError(error: any): boolean {
     if (error instanceof GeminiAPIError) {
       const status = error.originalError?.status;
@@ -100,36 +309,102 @@ export class ErrorHandler {
     return false;
   }
 
-  static getRetryDelay(attempt: number): number {
+  static getRetryDelay(attempt: number, error?: unknown, baseDelay: number = 1000): number {
+    // A delay the server asked for (RetryInfo on 429 responses) wins over our own backoff
+    const retryDelay =
+      error instanceof QuotaExceededError ? parseDuration(error.quota.retryDelay) : undefined;
+    if (retryDelay !== undefined) {
+      return retryDelay;
+    }
+
     // Exponential backoff: 1s, 2s, 4s, 8s, 16s
-    return Math.min(1000 * Math.pow(2, attempt), 16000);
+    return Math.min(baseDelay * Math.pow(2, attempt), baseDelay * 16);
   }
 }
 
+export interface RetryStats {
+  attempts: number;
+  backoffMs: number;
+}
+
+export interface RetryOptions {
+  /**
+   * Attempts including the first one
+   */
+  maxAttempts?: number;
+  /**
+   * Backoff before the first retry, doubled for every further retry
+   */
+  baseDelay?: number;
+  /**
+   * Total time budget in ms, counted from `startedAt`; a retry whose backoff
+   * would overrun it is not made
+   */
+  budgetMs?: number;
+  startedAt?: number;
+  /**
+   * Aborting stops the backoff wait, and no further attempt is made
+   */
+  signal?: AbortSignal;
+  /**
+   * Accumulates the attempts made and the time spent backing off
+   */
+  stats?: RetryStats;
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
 /**
- * Async retry utility with exponential backoff
+ * Async retry utility with jittered exponential backoff. Errors are
+ * classified as Gemini errors, so raw SDK errors can be retried too; the
+ * error that ends the retries is rethrown unchanged.
  */
 export async function withRetry<T>(
   operation: () => Promise<T>,
-  maxAttempts: number = 3,
-  baseDelay: number = 1000
+  {
+    maxAttempts = 3,
+    baseDelay = 1000,
+    budgetMs = Infinity,
+    startedAt = Date.now(),
+    signal,
+    stats = { attempts: 0, backoffMs: 0 }
+  }: RetryOptions = {}
 ): Promise<T> {
-  let lastError: any;
-
-  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+  for (let attempt = 0; ; attempt++) {
+    stats.attempts++;
     try {
       return await operation();
     } catch (error) {
-      lastError = error;
+      const classified = ErrorHandler.toMCPError(error);
+      if (
+        attempt === maxAttempts - 1 ||
+        signal?.aborted ||
+        !ErrorHandler.isRetryableError(classified)
+      ) {
+        throw error;
+      }
 
-      if (attempt === maxAttempts - 1 || !ErrorHandler.isRetryableError(error)) {
+      // Up to 25% jitter keeps clients that failed together from retrying together
+      const baseWait = ErrorHandler.getRetryDelay(attempt, classified, baseDelay);
+      const delay = Math.round(baseWait * (1 + Math.random() * 0.25));
+      if (Date.now() - startedAt + delay > budgetMs) {
         throw error;
       }
 
-      const delay = baseDelay * Math.pow(2, attempt);
-      await new Promise(resolve => setTimeout(resolve, delay));
+      await sleep(delay, signal);
+      stats.backoffMs += delay;
     }
   }
-
-  throw lastError;
 }
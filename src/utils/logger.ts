@@ -1,4 +1,6 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import { config } from '../config/index.js';
+import { LoggingLevel, LoggingMessageParams } from '../types.js';
 
 export enum LogLevel {
   ERROR = 0,
@@ -14,11 +16,85 @@ const LOG_LEVEL_MAP: Record<string, LogLevel> = {
   debug: LogLevel.DEBUG
 };
 
-class Logger {
-  private currentLevel: LogLevel;
+/**
+ * MCP logging levels from least to most severe
+ */
+export const LOGGING_LEVELS: LoggingLevel[] = [
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency'
+];
+
+const MCP_LEVEL: Record<LogLevel, LoggingLevel> = {
+  [LogLevel.ERROR]: 'error',
+  [LogLevel.WARN]: 'warning',
+  [LogLevel.INFO]: 'info',
+  [LogLevel.DEBUG]: 'debug'
+};
+
+/**
+ * Map a `LOG_LEVEL` value onto the MCP logging level it corresponds to
+ */
+export function toLoggingLevel(level: string): LoggingLevel {
+  return MCP_LEVEL[LOG_LEVEL_MAP[level] ?? LogLevel.INFO];
+}
+
+export function isLoggingLevel(level: unknown): level is LoggingLevel {
+  return LOGGING_LEVELS.includes(level as LoggingLevel);
+}
+
+/**
+ * Whether a record at `level` should be emitted to a consumer set to `threshold`
+ */
+export function meetsLevel(level: LoggingLevel, threshold: LoggingLevel): boolean {
+  return LOGGING_LEVELS.indexOf(level) >= LOGGING_LEVELS.indexOf(threshold);
+}
+
+/**
+ * Receives a record along with the session whose request or notification
+ * logged it; records logged outside `runInSession` have no session
+ */
+export type LogSink = (record: Required<LoggingMessageParams>, sessionId?: string) => void;
+
+const sessionScope = new AsyncLocalStorage<string>();
+
+/**
+ * Run `fn` so that everything it logs, including after awaits, is attributed to the session
+ */
+export function runInSession<T>(sessionId: string, fn: () => T): T {
+  return sessionScope.run(sessionId, fn);
+}
+
+interface LoggerState {
+  currentLevel: LogLevel;
+  sinks: Set<LogSink>;
+  dispatching: boolean;
+}
 
-  constructor() {
-    this.currentLevel = LOG_LEVEL_MAP[config.logLevel] ?? LogLevel.INFO;
+export class Logger {
+  constructor(
+    private name: string,
+    private state: LoggerState
+  ) {}
+
+  /**
+   * Logger sharing this one's level and sinks but reporting a different name
+   */
+  child(name: string): Logger {
+    return new Logger(name, this.state);
+  }
+
+  /**
+   * Receive every log record regardless of the stderr level; returns an unsubscribe function
+   */
+  addSink(sink: LogSink): () => void {
+    this.state.sinks.add(sink);
+    return () => this.state.sinks.delete(sink);
   }
 
   private formatMessage(level: string, message: string, meta?: any): string {
@@ -28,7 +104,7 @@ class Logger {
   }
 
   private log(level: LogLevel, levelName: string, message: string, meta?: any): void {
-    if (level <= this.currentLevel) {
+    if (level <= this.state.currentLevel) {
       const formattedMessage = this.formatMessage(levelName, message, meta);
 
       // Use stderr for logging to avoid interfering with MCP protocol on stdout
@@ -38,6 +114,32 @@ class Logger {
         console.error(formattedMessage);
       }
     }
+
+    this.dispatch(level, message, meta);
+  }
+
+  private dispatch(level: LogLevel, message: string, meta?: unknown): void {
+    // A sink that logs while delivering a record must not recurse into itself
+    if (this.state.sinks.size === 0 || this.state.dispatching) {
+      return;
+    }
+
+    const record = {
+      level: MCP_LEVEL[level],
+      logger: this.name,
+      data: meta === undefined ? { message } : { message, details: serializeMeta(meta) }
+    };
+
+    const sessionId = sessionScope.getStore();
+
+    this.state.dispatching = true;
+    try {
+      this.state.sinks.forEach(sink => sink(record, sessionId));
+    } catch (error) {
+      console.error('Log sink failed:', error);
+    } finally {
+      this.state.dispatching = false;
+    }
   }
 
   error(message: string, meta?: any): void {
@@ -56,6 +158,13 @@ class Logger {
     this.log(LogLevel.DEBUG, '🐛 DEBUG', message, meta);
   }
 
+  /**
+   * Send a record to the sinks only, for output meant for clients rather than stderr
+   */
+  forward(level: LogLevel, message: string, meta?: unknown): void {
+    this.dispatch(level, message, meta);
+  }
+
   // Convenience methods with emojis for better UX
   startup(message: string, meta?: any): void {
     this.info(`🚀 ${message}`, meta);
@@ -82,4 +191,18 @@ class Logger {
   }
 }
 
-export const logger = new Logger();
+/**
+ * Errors serialize to `{}` with JSON.stringify, so keep their name and message
+ */
+function serializeMeta(meta: unknown): unknown {
+  if (meta instanceof Error) {
+    return { name: meta.name, message: meta.message };
+  }
+  return meta;
+}
+
+export const logger = new Logger('server', {
+  currentLevel: LOG_LEVEL_MAP[config.logLevel] ?? LogLevel.INFO,
+  sinks: new Set(),
+  dispatching: false
+});
@@ -0,0 +1,78 @@
+export interface ToolMetrics {
+  calls: number;
+  errors: number;
+  totalDurationMs: number;
+}
+
+export interface QueueMetrics {
+  calls: number;
+  queued: number;
+  totalWaitMs: number;
+  maxWaitMs: number;
+}
+
+/**
+ * In-process counters behind the `gemini://metrics` resource
+ */
+export class MetricsCollector {
+  private startedAt = Date.now();
+  private tools = new Map<string, ToolMetrics>();
+  private queues = new Map<string, QueueMetrics>();
+  private listeners = new Set<() => void>();
+
+  /**
+   * Record a finished tool call
+   */
+  recordToolCall(tool: string, durationMs: number, failed: boolean): void {
+    const entry = this.tools.get(tool) ?? { calls: 0, errors: 0, totalDurationMs: 0 };
+    entry.calls++;
+    entry.totalDurationMs += durationMs;
+    if (failed) {
+      entry.errors++;
+    }
+    this.tools.set(tool, entry);
+
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Record how long a Gemini call waited for a concurrency slot. Listeners
+   * are not notified; the tool call that made it reports the change.
+   */
+  recordQueueWait(model: string, waitMs: number): void {
+    const entry = this.queues.get(model) ?? { calls: 0, queued: 0, totalWaitMs: 0, maxWaitMs: 0 };
+    entry.calls++;
+    if (waitMs > 0) {
+      entry.queued++;
+      entry.totalWaitMs += waitMs;
+      entry.maxWaitMs = Math.max(entry.maxWaitMs, waitMs);
+    }
+    this.queues.set(model, entry);
+  }
+
+  /**
+   * Be told whenever the metrics change; returns an unsubscribe function
+   */
+  onUpdate(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  snapshot() {
+    return {
+      uptimeMs: Date.now() - this.startedAt,
+      tools: Object.fromEntries(
+        [...this.tools].map(([tool, { calls, errors, totalDurationMs }]) => [
+          tool,
+          { calls, errors, averageDurationMs: Math.round(totalDurationMs / calls) }
+        ])
+      ),
+      queues: Object.fromEntries(
+        [...this.queues].map(([model, { calls, queued, totalWaitMs, maxWaitMs }]) => [
+          model,
+          { calls, queued, averageWaitMs: Math.round(totalWaitMs / calls), maxWaitMs }
+        ])
+      )
+    };
+  }
+}
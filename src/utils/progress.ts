@@ -0,0 +1,66 @@
+import { ProgressNotification, RequestContext } from '../types.js';
+
+const DEFAULT_KEEP_ALIVE_INTERVAL = 5000;
+
+/**
+ * Emits `notifications/progress` for a request that carried `_meta.progressToken`.
+ * Without a token every call is a no-op, so tools can report unconditionally.
+ */
+export class ProgressReporter {
+  private progress = 0;
+
+  constructor(private context: Pick<RequestContext, 'progressToken' | 'send'>) {}
+
+  get enabled(): boolean {
+    return this.context.progressToken !== undefined;
+  }
+
+  /**
+   * Send an absolute progress value. Values that do not increase are
+   * dropped, since the protocol requires progress to grow monotonically.
+   */
+  report(progress: number, total?: number, message?: string): void {
+    const { progressToken } = this.context;
+    if (progressToken === undefined || progress <= this.progress) {
+      return;
+    }
+
+    this.progress = progress;
+    const notification: ProgressNotification = {
+      jsonrpc: '2.0',
+      method: 'notifications/progress',
+      params: {
+        progressToken,
+        progress,
+        ...(total !== undefined && { total }),
+        ...(message && { message })
+      }
+    };
+    this.context.send(notification);
+  }
+
+  /**
+   * Advance progress by one step
+   */
+  step(message?: string, total?: number): void {
+    this.report(this.progress + 1, total, message);
+  }
+
+  /**
+   * Keep stepping on an interval while waiting on a slow call so clients can
+   * tell the request is still alive. Returns a function that stops the timer.
+   */
+  keepAlive(message: string, intervalMs: number = DEFAULT_KEEP_ALIVE_INTERVAL): () => void {
+    if (!this.enabled) {
+      return () => undefined;
+    }
+
+    const startedAt = Date.now();
+    const timer = setInterval(() => {
+      const elapsed = Math.round((Date.now() - startedAt) / 1000);
+      this.step(`${message} (${elapsed}s elapsed)`);
+    }, intervalMs);
+
+    return () => clearInterval(timer);
+  }
+}
@@ -1,117 +1,244 @@
 import { config } from '../config/index.js';
-import { RateLimitError } from './errors.js';
+import { RateLimitError, sleep } from './errors.js';
 import { logger } from './logger.js';
 
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
+const MINUTE = 60000;
+const DAY = 86400000;
+
+/**
+ * What happens to a call over a limit: fail with a RateLimitError, or wait
+ * until the window has room
+ */
+export type RateLimitMode = 'reject' | 'wait';
+
+/**
+ * Gemini quotas for one model; limits left out are not enforced
+ */
+export interface ModelQuota {
+  /**
+   * Requests per minute
+   */
+  rpm?: number;
+  /**
+   * Tokens per minute, counted from the `usageMetadata` of responses
+   */
+  tpm?: number;
+  /**
+   * Requests per day
+   */
+  rpd?: number;
+}
+
+export interface RateLimiterOptions {
+  enabled?: boolean;
+  /**
+   * Tool calls per window for each session and tool
+   */
+  maxRequests?: number;
+  windowMs?: number;
+  models?: Record<string, ModelQuota>;
+  mode?: RateLimitMode;
+  now?: () => number;
+}
+
+interface Check {
+  key: string;
+  window: SlidingWindow;
+  limit: number;
+  /**
+   * Requests count 1 when admitted; tokens are recorded after the call
+   */
+  counts: boolean;
+}
+
+/**
+ * Amounts recorded over the last `windowMs`. Each entry expires on its own,
+ * so the window slides instead of resetting all at once.
+ */
+export class SlidingWindow {
+  private entries: Array<{ at: number; amount: number }> = [];
+  private total = 0;
+
+  constructor(private windowMs: number) {}
+
+  add(amount: number, now: number): void {
+    this.entries.push({ at: now, amount });
+    this.total += amount;
+  }
+
+  usage(now: number): number {
+    this.prune(now);
+    return this.total;
+  }
+
+  /**
+   * Milliseconds until the usage drops below the limit (0 if it already has)
+   */
+  waitFor(limit: number, now: number): number {
+    let usage = this.usage(now);
+    for (const entry of this.entries) {
+      if (usage < limit) {
+        break;
+      }
+      usage -= entry.amount;
+      if (usage < limit) {
+        return entry.at + this.windowMs - now;
+      }
+    }
+    return 0;
+  }
+
+  private prune(now: number): void {
+    while (this.entries.length > 0 && this.entries[0].at + this.windowMs <= now) {
+      this.total -= this.entries[0].amount;
+      this.entries.shift();
+    }
+  }
 }
 
 /**
- * Simple in-memory rate limiter using sliding window
+ * In-memory sliding-window rate limiter. Tool calls are limited per session
+ * and tool; Gemini calls are held to each model's configured RPM, TPM and
+ * RPD quotas, which are shared by all sessions like the API key's quotas.
  */
 export class RateLimiter {
-  private requests = new Map<string, RateLimitEntry>();
+  private windows = new Map<string, SlidingWindow>();
   private cleanupInterval: NodeJS.Timeout;
+  private enabled: boolean;
+  private maxRequests: number;
+  private windowMs: number;
+  private models: Record<string, ModelQuota>;
+  private mode: RateLimitMode;
+  private now: () => number;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.enabled = options.enabled ?? true;
+    this.maxRequests = options.maxRequests ?? 100;
+    this.windowMs = options.windowMs ?? MINUTE;
+    this.models = options.models ?? {};
+    this.mode = options.mode ?? 'reject';
+    this.now = options.now ?? Date.now;
 
-  constructor(
-    private maxRequests: number = config.rateLimitRequests,
-    private windowMs: number = config.rateLimitWindow
-  ) {
-    // Clean up expired entries every minute
+    // Clean up idle windows every minute, without keeping the process alive
     this.cleanupInterval = setInterval(() => {
       this.cleanup();
-    }, 60000);
+    }, MINUTE);
+    this.cleanupInterval.unref();
+  }
+
+  /**
+   * Admit a tool call for the session. Resolves with the time spent waiting
+   * in wait mode; in reject mode a call over the limit throws RateLimitError.
+   */
+  acquireToolCall(sessionId: string, tool: string, signal?: AbortSignal): Promise<number> {
+    return this.acquire(
+      [this.check(`session ${sessionId}, tool ${tool}`, this.maxRequests, this.windowMs)],
+      signal
+    );
+  }
+
+  /**
+   * Admit a Gemini call under the model's quotas, like `acquireToolCall`.
+   * The tokens-per-minute limit admits calls while the tokens recorded in
+   * the last minute are below it.
+   */
+  acquireModelCall(model: string, signal?: AbortSignal): Promise<number> {
+    const quota = this.models[model] ?? {};
+    const checks = [
+      quota.rpm && this.check(`${model} requests per minute`, quota.rpm, MINUTE),
+      quota.rpd && this.check(`${model} requests per day`, quota.rpd, DAY),
+      quota.tpm && { ...this.check(`${model} tokens per minute`, quota.tpm, MINUTE), counts: false }
+    ];
+    return this.acquire(
+      checks.filter((check): check is Check => !!check),
+      signal
+    );
   }
 
   /**
-   * Check if request is allowed for the given identifier
+   * Count the tokens of a finished Gemini call toward the model's TPM quota
    */
-  checkLimit(identifier: string = 'default'): void {
-    if (!config.rateLimitEnabled) {
-      return;
+  recordTokens(model: string, tokens: number): void {
+    if (this.enabled && this.models[model]?.tpm && tokens > 0) {
+      this.check(`${model} tokens per minute`, 0, MINUTE).window.add(tokens, this.now());
     }
+  }
 
-    const now = Date.now();
-    const entry = this.requests.get(identifier);
+  /**
+   * Current usage per limit, such as `gemini-2.5-pro requests per minute`
+   */
+  getUsage(): Record<string, number> {
+    const now = this.now();
+    return Object.fromEntries([...this.windows].map(([key, window]) => [key, window.usage(now)]));
+  }
 
-    if (!entry) {
-      // First request for this identifier
-      this.requests.set(identifier, {
-        count: 1,
-        resetTime: now + this.windowMs
-      });
-      return;
+  private check(key: string, limit: number, windowMs: number): Check {
+    let window = this.windows.get(key);
+    if (!window) {
+      window = new SlidingWindow(windowMs);
+      this.windows.set(key, window);
     }
+    return { key, window, limit, counts: true };
+  }
 
-    if (now >= entry.resetTime) {
-      // Window has expired, reset
-      entry.count = 1;
-      entry.resetTime = now + this.windowMs;
-      return;
+  private async acquire(checks: Check[], signal?: AbortSignal): Promise<number> {
+    if (!this.enabled) {
+      return 0;
     }
 
-    if (entry.count >= this.maxRequests) {
-      const resetIn = Math.ceil((entry.resetTime - now) / 1000);
-      logger.security(`Rate limit exceeded for ${identifier}`, {
-        count: entry.count,
-        limit: this.maxRequests,
-        resetIn
-      });
+    const startedAt = this.now();
+    for (;;) {
+      const now = this.now();
+      const waits = checks.map(check => check.window.waitFor(check.limit, now));
+      const waitMs = Math.max(0, ...waits);
 
-      throw new RateLimitError(`Rate limit exceeded. Try again in ${resetIn} seconds.`);
-    }
+      if (waitMs === 0) {
+        checks.filter(check => check.counts).forEach(check => check.window.add(1, now));
+        return now - startedAt;
+      }
 
-    entry.count++;
-  }
+      if (this.mode === 'reject') {
+        const exceeded = checks[waits.indexOf(waitMs)];
+        const resetIn = Math.ceil(waitMs / 1000);
+        logger.security(`Rate limit exceeded for ${exceeded.key}`, {
+          limit: exceeded.limit,
+          resetIn
+        });
+        throw new RateLimitError(
+          `Rate limit exceeded for ${exceeded.key}. Try again in ${resetIn} seconds.`,
+          { scope: exceeded.key, limit: exceeded.limit, retryAfterMs: waitMs }
+        );
+      }
 
-  /**
-   * Get current usage for identifier
-   */
-  getUsage(identifier: string = 'default'): { count: number; limit: number; resetTime: number } {
-    const entry = this.requests.get(identifier);
-    const now = Date.now();
-
-    if (!entry || now >= entry.resetTime) {
-      return {
-        count: 0,
-        limit: this.maxRequests,
-        resetTime: now + this.windowMs
-      };
+      await sleep(waitMs, signal);
     }
-
-    return {
-      count: entry.count,
-      limit: this.maxRequests,
-      resetTime: entry.resetTime
-    };
   }
 
   /**
-   * Clean up expired entries
+   * Drop windows with nothing left in them
    */
   private cleanup(): void {
-    const now = Date.now();
+    const now = this.now();
     let cleaned = 0;
 
-    for (const [identifier, entry] of this.requests.entries()) {
-      if (now >= entry.resetTime) {
-        this.requests.delete(identifier);
+    for (const [key, window] of this.windows) {
+      if (window.usage(now) === 0) {
+        this.windows.delete(key);
         cleaned++;
       }
     }
 
     if (cleaned > 0) {
-      logger.debug(`Cleaned up ${cleaned} expired rate limit entries`);
+      logger.debug(`Cleaned up ${cleaned} idle rate limit windows`);
     }
   }
 
   /**
-   * Reset rate limit for identifier
+   * Forget all usage
    */
-  reset(identifier: string = 'default'): void {
-    this.requests.delete(identifier);
-    logger.debug(`Reset rate limit for ${identifier}`);
+  reset(): void {
+    this.windows.clear();
+    logger.debug('Reset rate limits');
   }
 
   /**
@@ -121,9 +248,15 @@ export class RateLimiter {
     if (this.cleanupInterval) {
       clearInterval(this.cleanupInterval);
     }
-    this.requests.clear();
+    this.windows.clear();
   }
 }
 
 // Export singleton instance
-export const rateLimiter = new RateLimiter();
+export const rateLimiter = new RateLimiter({
+  enabled: config.rateLimitEnabled,
+  maxRequests: config.rateLimitRequests,
+  windowMs: config.rateLimitWindow,
+  models: config.modelQuotas,
+  mode: config.rateLimitMode
+});
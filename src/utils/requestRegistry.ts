@@ -0,0 +1,80 @@
+import { logger } from './logger.js';
+
+interface InFlightRequest {
+  sessionId: string;
+  id: string | number;
+  method: string;
+  controller: AbortController;
+  startedAt: number;
+}
+
+/**
+ * Tracks in-flight JSON-RPC requests so they can be cancelled by
+ * `notifications/cancelled` and their late responses suppressed
+ */
+export class RequestRegistry {
+  private requests = new Map<string, InFlightRequest>();
+
+  /**
+   * Register a request and get the signal that aborts its work
+   */
+  begin(sessionId: string, id: string | number, method: string): AbortSignal {
+    const controller = new AbortController();
+    this.requests.set(this.key(sessionId, id), {
+      sessionId,
+      id,
+      method,
+      controller,
+      startedAt: Date.now()
+    });
+    return controller.signal;
+  }
+
+  /**
+   * Abort a request. Returns false if it is unknown or already finished.
+   */
+  cancel(sessionId: string, id: string | number, reason?: string): boolean {
+    const request = this.requests.get(this.key(sessionId, id));
+    if (!request) {
+      logger.debug(`Ignoring cancellation for unknown request ${id}`);
+      return false;
+    }
+
+    logger.info(`Cancelling ${request.method} (ID: ${id})`, {
+      reason,
+      elapsedMs: Date.now() - request.startedAt
+    });
+    request.controller.abort(reason ?? 'Request cancelled by client');
+    return true;
+  }
+
+  /**
+   * Forget a request once its response has been sent
+   */
+  end(sessionId: string, id: string | number): void {
+    this.requests.delete(this.key(sessionId, id));
+  }
+
+  /**
+   * Abort every request belonging to a session
+   */
+  cancelSession(sessionId: string): void {
+    for (const request of this.requests.values()) {
+      if (request.sessionId === sessionId) {
+        this.cancel(sessionId, request.id, 'Session closed');
+      }
+    }
+  }
+
+  /**
+   * Number of requests currently in flight
+   */
+  get size(): number {
+    return this.requests.size;
+  }
+
+  private key(sessionId: string, id: string | number): string {
+    // Keep 1 and "1" distinct, as JSON-RPC does
+    return `${sessionId}:${typeof id}:${id}`;
+  }
+}
@@ -0,0 +1,57 @@
+import { TimeoutError } from './errors.js';
+
+export interface TimeoutOptions {
+  /**
+   * Aborting this (for example a client cancellation) aborts the operation too
+   */
+  signal?: AbortSignal;
+  /**
+   * What timed out, for the error message
+   */
+  label?: string;
+}
+
+/**
+ * Run an operation under a deadline. The operation gets a signal that aborts
+ * when the deadline passes or the parent signal aborts, and should hand it to
+ * every SDK call it makes. When the deadline passes the promise rejects with
+ * TimeoutError straight away, even if the operation ignores the signal.
+ * A limit of 0 or less means no deadline.
+ */
+export async function withTimeout<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  { signal: parent, label = 'Request' }: TimeoutOptions = {}
+): Promise<T> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(parent?.reason);
+  if (parent?.aborted) {
+    onAbort();
+  }
+  parent?.addEventListener('abort', onAbort, { once: true });
+
+  const startedAt = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+  const deadline = new Promise<never>((_, reject) => {
+    if (timeoutMs <= 0) {
+      return;
+    }
+    timer = setTimeout(() => {
+      const elapsedMs = Date.now() - startedAt;
+      const error = new TimeoutError(
+        `${label} timed out after ${elapsedMs}ms (limit ${timeoutMs}ms)`,
+        { elapsedMs, timeoutMs }
+      );
+      // Settle first, so the abort error from the SDK cannot win the race
+      reject(error);
+      controller.abort(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([operation(controller.signal), deadline]);
+  } finally {
+    clearTimeout(timer);
+    parent?.removeEventListener('abort', onAbort);
+  }
+}
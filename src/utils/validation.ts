@@ -1,21 +1,16 @@
 import { z } from 'zod';
+import { modelRouter } from '../modelRouter.js';
+import { modelCatalog } from '../models.js';
 import { ValidationError } from './errors.js';
 
 /**
  * Common validation schemas
  */
 export const CommonSchemas = {
-  // Gemini model names
-  geminiModel: z.enum([
-    'gemini-2.5-pro',
-    'gemini-2.5-flash',
-    'gemini-2.5-flash-lite',
-    'gemini-2.0-flash',
-    'gemini-2.0-flash-lite',
-    'gemini-2.0-pro-experimental',
-    'gemini-1.5-pro',
-    'gemini-1.5-flash'
-  ]),
+  // Gemini model names, aliases and "auto", re-read from the model catalogue on every parse and tools/list
+  geminiModel: z.lazy(() =>
+    z.enum([...modelCatalog.names(), ...modelRouter.names()] as [string, ...string[]])
+  ),
 
   // Temperature range
   temperature: z.number().min(0).max(2),
@@ -59,58 +54,6 @@ export const CommonSchemas = {
   imageUrl: z.string().url('Must be a valid URL')
 };
 
-/**
- * Tool parameter validation schemas
- */
-export const ToolSchemas = {
-  generateText: z.object({
-    prompt: z.string().min(1, 'Prompt is required'),
-    model: CommonSchemas.geminiModel.optional(),
-    systemInstruction: z.string().optional(),
-    temperature: CommonSchemas.temperature.optional(),
-    maxTokens: CommonSchemas.maxTokens.optional(),
-    topK: CommonSchemas.topK.optional(),
-    topP: CommonSchemas.topP.optional(),
-    jsonMode: z.boolean().optional(),
-    jsonSchema: CommonSchemas.jsonSchema.optional(),
-    grounding: z.boolean().optional(),
-    safetySettings: CommonSchemas.safetySettings.optional(),
-    conversationId: CommonSchemas.conversationId.optional()
-  }),
-
-  analyzeImage: z
-    .object({
-      prompt: z.string().min(1, 'Prompt is required'),
-      imageUrl: CommonSchemas.imageUrl.optional(),
-      imageBase64: CommonSchemas.base64Image.optional(),
-      model: z.enum(['gemini-2.5-pro', 'gemini-2.5-flash', 'gemini-2.0-flash']).optional()
-    })
-    .refine(
-      data => data.imageUrl || data.imageBase64,
-      'Either imageUrl or imageBase64 must be provided'
-    ),
-
-  countTokens: z.object({
-    text: z.string().min(1, 'Text is required'),
-    model: CommonSchemas.geminiModel.optional()
-  }),
-
-  listModels: z.object({
-    filter: z.enum(['all', 'thinking', 'vision', 'grounding', 'json_mode']).optional()
-  }),
-
-  embedText: z.object({
-    text: z.string().min(1, 'Text is required'),
-    model: z.enum(['text-embedding-004', 'text-multilingual-embedding-002']).optional()
-  }),
-
-  getHelp: z.object({
-    topic: z
-      .enum(['overview', 'tools', 'models', 'parameters', 'examples', 'quick-start'])
-      .optional()
-  })
-};
-
 /**
  * Validation utility class
  */
@@ -0,0 +1,5 @@
+import { createRequire } from 'module';
+
+export const { version: SERVER_VERSION } = createRequire(import.meta.url)('../package.json') as {
+  version: string;
+};
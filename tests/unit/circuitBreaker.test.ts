@@ -0,0 +1,79 @@
+import { CircuitBreaker, CircuitBreakerRegistry } from '../../src/utils/circuitBreaker.js';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 0;
+    breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 1000, now: () => now });
+  });
+
+  const fail = (times: number) => {
+    for (let i = 0; i < times; i++) {
+      expect(breaker.tryAcquire()).toBe(true);
+      breaker.recordFailure();
+    }
+  };
+
+  it('should open after consecutive failures reach the threshold', () => {
+    fail(2);
+    expect(breaker.getState()).toBe('closed');
+
+    fail(1);
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.retryInMs()).toBe(1000);
+  });
+
+  it('should reset the failure count on success', () => {
+    fail(2);
+    breaker.recordSuccess();
+    fail(2);
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should let one probe through once half-open and close when it succeeds', () => {
+    fail(3);
+    now = 1000;
+
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it('should reopen when the probe fails', () => {
+    fail(3);
+    now = 1000;
+    breaker.tryAcquire();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.retryInMs()).toBe(1000);
+  });
+
+  it('should free the probe slot when a probe is released without a verdict', () => {
+    fail(3);
+    now = 1000;
+    breaker.tryAcquire();
+    breaker.release();
+
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+});
+
+describe('CircuitBreakerRegistry', () => {
+  it('should keep one breaker per key', () => {
+    const registry = new CircuitBreakerRegistry({ failureThreshold: 1 });
+    registry.get('gemini-2.5-pro').recordFailure();
+
+    expect(registry.get('gemini-2.5-pro')).toBe(registry.get('gemini-2.5-pro'));
+    expect(registry.snapshot()).toEqual({ 'gemini-2.5-pro': { state: 'open', failures: 1 } });
+  });
+});
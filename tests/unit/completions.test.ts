@@ -0,0 +1,113 @@
+import { CompletionProvider, filterCompletions } from '../../src/completions.js';
+import { PromptRegistry } from '../../src/prompts/registry.js';
+import { BUILTIN_PROMPTS } from '../../src/prompts/builtin.js';
+import { ValidationError } from '../../src/utils/errors.js';
+
+describe('CompletionProvider', () => {
+  const models = ['gemini-2.5-pro', 'gemini-2.5-flash', 'gemini-2.0-flash'];
+  let provider: CompletionProvider;
+
+  beforeEach(() => {
+    const prompts = new PromptRegistry(BUILTIN_PROMPTS);
+    prompts.register({
+      name: 'ask',
+      arguments: [{ name: 'question' }, { name: 'model' }],
+      render: () => []
+    });
+
+    provider = new CompletionProvider({
+      prompts,
+      models: () => models,
+      conversations: sessionId => (sessionId === 'a' ? ['chat-1', 'chat-2', 'notes'] : [])
+    });
+  });
+
+  it('should complete declared choices for built-in prompts', () => {
+    expect(
+      provider.complete(
+        {
+          ref: { type: 'ref/prompt', name: 'explain_with_thinking' },
+          argument: { name: 'level', value: 'e' }
+        },
+        'a'
+      )
+    ).toEqual({ values: ['expert'], total: 1, hasMore: false });
+
+    expect(
+      provider.complete(
+        {
+          ref: { type: 'ref/prompt', name: 'code_review' },
+          argument: { name: 'language', value: 'py' }
+        },
+        'a'
+      ).values
+    ).toEqual(['Python']);
+  });
+
+  it('should complete model names for model arguments', () => {
+    const completion = provider.complete(
+      {
+        ref: { type: 'ref/prompt', name: 'ask' },
+        argument: { name: 'model', value: 'gemini-2.5' }
+      },
+      'a'
+    );
+
+    expect(completion.values).toEqual(['gemini-2.5-pro', 'gemini-2.5-flash']);
+    expect(
+      provider.complete(
+        { ref: { type: 'ref/prompt', name: 'ask' }, argument: { name: 'question', value: '' } },
+        'a'
+      ).values
+    ).toEqual([]);
+  });
+
+  it('should complete resource template variables per session', () => {
+    const complete = (uri: string, name: string, value: string, sessionId: string) =>
+      provider.complete(
+        { ref: { type: 'ref/resource', uri }, argument: { name, value } },
+        sessionId
+      ).values;
+
+    expect(complete('gemini://conversations/{id}{?format}', 'id', 'chat', 'a')).toEqual([
+      'chat-1',
+      'chat-2'
+    ]);
+    expect(complete('gemini://conversations/{id}{?format}', 'id', 'chat', 'b')).toEqual([]);
+    expect(complete('gemini://models/{name}', 'name', 'gemini-2.0', 'a')).toEqual([
+      'gemini-2.0-flash'
+    ]);
+  });
+
+  it('should reject malformed requests and unknown references', () => {
+    expect(() => provider.complete({ argument: { name: 'x', value: '' } }, 'a')).toThrow(
+      ValidationError
+    );
+    expect(() =>
+      provider.complete(
+        { ref: { type: 'ref/prompt', name: 'missing' }, argument: { name: 'x', value: '' } },
+        'a'
+      )
+    ).toThrow('Unknown prompt: missing');
+    expect(() =>
+      provider.complete(
+        {
+          ref: { type: 'ref/resource', uri: 'gemini://nope/{x}' },
+          argument: { name: 'x', value: '' }
+        },
+        'a'
+      )
+    ).toThrow('Unknown resource template: gemini://nope/{x}');
+  });
+});
+
+describe('filterCompletions', () => {
+  it('should cap results at 100 and report the total', () => {
+    const candidates = Array.from({ length: 150 }, (_, i) => `item-${i}`);
+    const completion = filterCompletions(candidates, 'ITEM');
+
+    expect(completion.values).toHaveLength(100);
+    expect(completion.total).toBe(150);
+    expect(completion.hasMore).toBe(true);
+  });
+});
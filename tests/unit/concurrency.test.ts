@@ -0,0 +1,113 @@
+import { ConcurrencyLimiter } from '../../src/utils/concurrency.js';
+import { QueueFullError } from '../../src/utils/errors.js';
+
+function deferred<T = string>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(res => (resolve = res));
+  return { promise, resolve };
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('ConcurrencyLimiter', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 0;
+  });
+
+  it('should queue calls over the limit and start them in order', async () => {
+    const limiter = new ConcurrencyLimiter({ maxInFlight: 1, now: () => now });
+    const first = deferred();
+    const started: string[] = [];
+    const run = (name: string, done: Promise<string>) =>
+      limiter.run('gemini-2.5-flash', async () => {
+        started.push(name);
+        return done;
+      });
+
+    const a = run('a', first.promise);
+    const b = run('b', Promise.resolve('b'));
+    const c = run('c', Promise.resolve('c'));
+    await flush();
+
+    expect(started).toEqual(['a']);
+    expect(limiter.snapshot()).toEqual({
+      'gemini-2.5-flash': { inFlight: 1, queued: 2, limit: 1 }
+    });
+
+    now = 250;
+    first.resolve('a');
+
+    await expect(a).resolves.toEqual({ result: 'a', waitMs: 0 });
+    await expect(b).resolves.toEqual({ result: 'b', waitMs: 250 });
+    await expect(c).resolves.toEqual({ result: 'c', waitMs: 250 });
+    expect(started).toEqual(['a', 'b', 'c']);
+    expect(limiter.snapshot()).toEqual({});
+  });
+
+  it('should limit each model separately, with per-model overrides', async () => {
+    const limiter = new ConcurrencyLimiter({
+      maxInFlight: 1,
+      limits: { 'gemini-2.5-flash': 2 }
+    });
+    const pending = deferred();
+
+    void limiter.run('gemini-2.5-flash', () => pending.promise);
+    void limiter.run('gemini-2.5-flash', () => pending.promise);
+    void limiter.run('gemini-2.5-pro', () => pending.promise);
+    await flush();
+
+    expect(limiter.snapshot()).toEqual({
+      'gemini-2.5-flash': { inFlight: 2, queued: 0, limit: 2 },
+      'gemini-2.5-pro': { inFlight: 1, queued: 0, limit: 1 }
+    });
+    pending.resolve('done');
+  });
+
+  it('should reject calls with the queue depth when the queue is full', async () => {
+    const limiter = new ConcurrencyLimiter({ maxInFlight: 1, maxQueueSize: 1 });
+    const pending = deferred();
+
+    void limiter.run('gemini-2.5-pro', () => pending.promise);
+    void limiter.run('gemini-2.5-pro', () => pending.promise);
+    const rejected = limiter.run('gemini-2.5-pro', () => pending.promise);
+
+    await expect(rejected).rejects.toBeInstanceOf(QueueFullError);
+    await expect(rejected).rejects.toMatchObject({
+      message:
+        'Too many concurrent requests for gemini-2.5-pro: 1 in flight and 1 queued (queue limit 1)',
+      data: { model: 'gemini-2.5-pro', queueDepth: 1, maxQueueSize: 1, inFlight: 1 }
+    });
+    pending.resolve('done');
+  });
+
+  it('should drop cancelled calls from the queue', async () => {
+    const limiter = new ConcurrencyLimiter({ maxInFlight: 1 });
+    const pending = deferred();
+    const controller = new AbortController();
+    const operation = jest.fn(async () => 'late');
+
+    const running = limiter.run('gemini-2.5-pro', () => pending.promise);
+    const queued = limiter.run('gemini-2.5-pro', operation, controller.signal);
+    controller.abort(new Error('Request cancelled'));
+
+    await expect(queued).rejects.toThrow('Request cancelled');
+    expect(limiter.snapshot()['gemini-2.5-pro'].queued).toBe(0);
+
+    pending.resolve('done');
+    await running;
+    expect(operation).not.toHaveBeenCalled();
+    expect(limiter.snapshot()).toEqual({});
+  });
+
+  it('should report the wait of each call to listeners', async () => {
+    const limiter = new ConcurrencyLimiter({ now: () => now });
+    const listener = jest.fn();
+    limiter.onAcquire(listener);
+
+    await limiter.run('gemini-2.5-flash', async () => 'ok');
+
+    expect(listener).toHaveBeenCalledWith('gemini-2.5-flash', 0);
+  });
+});
@@ -62,6 +62,44 @@ describe('Configuration', () => {
       expect(config.rateLimitEnabled).toBe(false);
     });
 
+    it('should parse HTTP transport settings', () => {
+      process.env.GEMINI_API_KEY = 'test-api-key';
+      process.env.MCP_TRANSPORT = 'http';
+      process.env.HTTP_PORT = '8080';
+      process.env.HTTP_ALLOWED_ORIGINS = 'https://a.example.com, https://b.example.com';
+
+      const config = loadConfig();
+
+      expect(config.transport).toBe('http');
+      expect(config.httpPort).toBe(8080);
+      expect(config.httpHost).toBe('127.0.0.1');
+      expect(config.httpAllowedOrigins).toEqual(['https://a.example.com', 'https://b.example.com']);
+    });
+
+    it('should parse the rate limit mode and per-model quotas', () => {
+      process.env.GEMINI_API_KEY = 'test-api-key';
+      process.env.RATE_LIMIT_MODE = 'wait';
+      process.env.MODEL_RPM = 'gemini-2.5-pro=5, gemini-2.5-flash=10';
+      process.env.MODEL_TPM = 'gemini-2.5-pro=250000';
+      process.env.MODEL_RPD = 'gemini-2.5-pro=100';
+
+      const config = loadConfig();
+
+      expect(config.rateLimitMode).toBe('wait');
+      expect(config.modelQuotas).toEqual({
+        'gemini-2.5-pro': { rpm: 5, tpm: 250000, rpd: 100 },
+        'gemini-2.5-flash': { rpm: 10 }
+      });
+    });
+
+    it('should default to the stdio transport', () => {
+      process.env.GEMINI_API_KEY = 'test-api-key';
+
+      const config = loadConfig();
+
+      expect(config.transport).toBe('stdio');
+    });
+
     it('should detect development environment', () => {
       process.env.GEMINI_API_KEY = 'test-api-key';
       process.env.NODE_ENV = 'development';
@@ -0,0 +1,54 @@
+import { ConversationStore } from '../../src/utils/conversationStore.js';
+
+describe('ConversationStore', () => {
+  let store: ConversationStore;
+
+  beforeEach(() => {
+    store = new ConversationStore();
+  });
+
+  it('should append and read conversation history', () => {
+    store.append('session-a', 'chat', { role: 'user' }, { role: 'model' });
+    store.append('session-a', 'chat', { role: 'user' });
+
+    expect(store.get('session-a', 'chat')).toHaveLength(3);
+    expect(store.has('session-a', 'chat')).toBe(true);
+  });
+
+  it('should isolate conversations between namespaces', () => {
+    store.append('session-a', 'chat', { role: 'user' });
+
+    expect(store.get('session-b', 'chat')).toEqual([]);
+    expect(store.has('session-b', 'chat')).toBe(false);
+    expect(store.list('session-b')).toEqual([]);
+  });
+
+  it('should return a copy of the history', () => {
+    store.append('session-a', 'chat', { role: 'user' });
+    store.get('session-a', 'chat').push({ role: 'model' });
+
+    expect(store.get('session-a', 'chat')).toHaveLength(1);
+  });
+
+  it('should clear namespaces', () => {
+    store.append('session-a', 'one', { role: 'user' });
+    store.append('session-b', 'two', { role: 'user' });
+
+    store.clearNamespace('session-a');
+    expect(store.list('session-b')).toEqual(['two']);
+    expect(store.list('session-a')).toEqual([]);
+  });
+
+  it('should report created and updated conversations', () => {
+    const onChange = jest.fn();
+    store = new ConversationStore(onChange);
+
+    store.append('session-a', 'chat', { role: 'user' });
+    store.append('session-a', 'chat', { role: 'model' });
+
+    expect(onChange.mock.calls.map(([change]) => change)).toEqual([
+      { namespace: 'session-a', conversationId: 'chat', type: 'created' },
+      { namespace: 'session-a', conversationId: 'chat', type: 'updated' }
+    ]);
+  });
+});
@@ -5,6 +5,9 @@ import {
   RateLimitError,
   TimeoutError,
   GeminiAPIError,
+  ToolExecutionError,
+  ContentBlockedError,
+  QuotaExceededError,
   ErrorHandler,
   withRetry
 } from '../../src/utils/errors.js';
@@ -76,6 +79,21 @@ describe('Error Classes', () => {
       expect(error.code).toBe(-32002);
       expect(error.name).toBe('RateLimitError');
     });
+
+    it('should be reported in the tool result with when to retry', () => {
+      const error = new RateLimitError('Rate limit exceeded for session a, tool echo', {
+        scope: 'session a, tool echo',
+        limit: 1,
+        retryAfterMs: 30000
+      });
+
+      expect(error).toBeInstanceOf(ToolExecutionError);
+      expect(error.toToolResult().metadata.error).toEqual({
+        type: 'RateLimitError',
+        code: -32002,
+        details: { scope: 'session a, tool echo', limit: 1, retryAfterMs: 30000 }
+      });
+    });
   });
 
   describe('TimeoutError', () => {
@@ -102,6 +120,26 @@ describe('Error Classes', () => {
   });
 });
 
+describe('ToolExecutionError', () => {
+  it('should classify Gemini and timeout errors as execution errors', () => {
+    expect(new GeminiAPIError('Error')).toBeInstanceOf(ToolExecutionError);
+    expect(new TimeoutError()).toBeInstanceOf(ToolExecutionError);
+    expect(new ValidationError('bad')).not.toBeInstanceOf(ToolExecutionError);
+  });
+
+  it('should convert to an isError tool result', () => {
+    const error = new ContentBlockedError('Blocked', { finishReason: 'SAFETY' });
+
+    expect(error.toToolResult()).toEqual({
+      content: [{ type: 'text', text: 'Blocked' }],
+      isError: true,
+      metadata: {
+        error: { type: 'ContentBlockedError', code: -32603, details: { finishReason: 'SAFETY' } }
+      }
+    });
+  });
+});
+
 describe('ErrorHandler', () => {
   describe('handleGeminiError', () => {
     it('should handle error with message', () => {
@@ -138,6 +176,90 @@ describe('ErrorHandler', () => {
       expect(result.message).toBe('Unknown Gemini API error');
       expect(result.originalError).toBe(geminiError);
     });
+
+    it('should parse the JSON body of an SDK ApiError', () => {
+      const apiError = Object.assign(
+        new Error(
+          JSON.stringify({
+            error: { code: 400, message: 'Invalid argument', status: 'INVALID_ARGUMENT' }
+          })
+        ),
+        { status: 400 }
+      );
+
+      const result = ErrorHandler.handleGeminiError(apiError);
+
+      expect(result.message).toBe('Invalid argument');
+      expect(result.data).toEqual({
+        code: 400,
+        message: 'Invalid argument',
+        status: 'INVALID_ARGUMENT'
+      });
+    });
+
+    it('should report quota details for RESOURCE_EXHAUSTED', () => {
+      const result = ErrorHandler.handleGeminiError({
+        error: {
+          code: 429,
+          message: 'Quota exceeded',
+          status: 'RESOURCE_EXHAUSTED',
+          details: [
+            {
+              '@type': 'type.googleapis.com/google.rpc.QuotaFailure',
+              violations: [
+                {
+                  quotaMetric:
+                    'generativelanguage.googleapis.com/generate_content_free_tier_requests',
+                  quotaId: 'GenerateRequestsPerMinutePerProjectPerModel-FreeTier'
+                }
+              ]
+            },
+            { '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '37s' }
+          ]
+        }
+      });
+
+      expect(result).toBeInstanceOf(QuotaExceededError);
+      expect(result.data).toEqual({
+        status: 'RESOURCE_EXHAUSTED',
+        quotaMetric: 'generativelanguage.googleapis.com/generate_content_free_tier_requests',
+        quotaId: 'GenerateRequestsPerMinutePerProjectPerModel-FreeTier',
+        retryDelay: '37s'
+      });
+      expect(ErrorHandler.isRetryableError(result)).toBe(true);
+    });
+  });
+
+  describe('toMCPError', () => {
+    it('should keep MCP errors and wrap everything else as Gemini API errors', () => {
+      const validation = new ValidationError('bad');
+
+      expect(ErrorHandler.toMCPError(validation)).toBe(validation);
+      expect(ErrorHandler.toMCPError(new Error('fetch failed'))).toMatchObject({
+        name: 'GeminiAPIError',
+        message: 'fetch failed'
+      });
+    });
+  });
+
+  describe('assertNotBlocked', () => {
+    it('should throw for a blocked prompt', () => {
+      expect(() =>
+        ErrorHandler.assertNotBlocked({ promptFeedback: { blockReason: 'SAFETY' } })
+      ).toThrow(ContentBlockedError);
+    });
+
+    it('should throw when the response was withheld', () => {
+      expect(() =>
+        ErrorHandler.assertNotBlocked({ candidates: [{ finishReason: 'RECITATION' }] })
+      ).toThrow('Response was blocked by Gemini (finish reason: RECITATION)');
+    });
+
+    it('should accept normal responses', () => {
+      expect(() =>
+        ErrorHandler.assertNotBlocked({ text: 'Hi', candidates: [{ finishReason: 'STOP' }] })
+      ).not.toThrow();
+    });
   });
 
   describe('isRetryableError', () => {
@@ -181,6 +303,13 @@ describe('ErrorHandler', () => {
     it('should cap delay at maximum', () => {
       expect(ErrorHandler.getRetryDelay(10)).toBe(16000);
     });
+
+    it('should use the delay the server asked for', () => {
+      const quota = new QuotaExceededError('Quota exceeded', { code: 429 }, { retryDelay: '1.5s' });
+
+      expect(ErrorHandler.getRetryDelay(0, quota)).toBe(1500);
+      expect(ErrorHandler.getRetryDelay(0, new QuotaExceededError('Quota exceeded', {}))).toBe(1000);
+    });
   });
 });
 
@@ -192,7 +321,7 @@ describe('withRetry', () => {
   it('should succeed on first attempt', async () => {
     const operation = jest.fn().mockResolvedValue('success');
 
-    const result = await withRetry(operation, 3);
+    const result = await withRetry(operation, { maxAttempts: 3 });
 
     expect(result).toBe('success');
     expect(operation).toHaveBeenCalledTimes(1);
@@ -205,7 +334,7 @@ describe('withRetry', () => {
       .mockRejectedValueOnce(retryableError)
       .mockResolvedValue('success');
 
-    const result = await withRetry(operation, 3);
+    const result = await withRetry(operation, { maxAttempts: 3 });
 
     expect(result).toBe('success');
     expect(operation).toHaveBeenCalledTimes(3);
@@ -215,7 +344,7 @@ describe('withRetry', () => {
     const nonRetryableError = new ValidationError('Invalid input');
     const operation = jest.fn().mockRejectedValue(nonRetryableError);
 
-    await expect(withRetry(operation, 3)).rejects.toThrow(ValidationError);
+    await expect(withRetry(operation, { maxAttempts: 3 })).rejects.toThrow(ValidationError);
     expect(operation).toHaveBeenCalledTimes(1);
   });
 
@@ -223,10 +352,53 @@ describe('withRetry', () => {
     const retryableError = new GeminiAPIError('Error', { status: 'UNAVAILABLE' });
     const operation = jest.fn().mockRejectedValue(retryableError);
 
-    await expect(withRetry(operation, 3)).rejects.toThrow(GeminiAPIError);
+    await expect(withRetry(operation, { maxAttempts: 3 })).rejects.toThrow(GeminiAPIError);
     expect(operation).toHaveBeenCalledTimes(3);
   });
 
+  it('should retry raw SDK errors that classify as retryable', async () => {
+    const sdkError = new Error(
+      '{"error":{"code":503,"message":"The model is overloaded.","status":"UNAVAILABLE"}}'
+    );
+    const operation = jest.fn().mockRejectedValueOnce(sdkError).mockResolvedValue('success');
+
+    await expect(withRetry(operation, { baseDelay: 1 })).resolves.toBe('success');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('should count attempts and backoff in the stats', async () => {
+    const retryableError = new GeminiAPIError('Error', { status: 'UNAVAILABLE' });
+    const operation = jest.fn().mockRejectedValueOnce(retryableError).mockResolvedValue('success');
+    const stats = { attempts: 0, backoffMs: 0 };
+
+    await withRetry(operation, { baseDelay: 20, stats });
+
+    expect(stats.attempts).toBe(2);
+    expect(stats.backoffMs).toBeGreaterThanOrEqual(20);
+    expect(stats.backoffMs).toBeLessThanOrEqual(25);
+  });
+
+  it('should not retry when the backoff would overrun the budget', async () => {
+    const quota = new QuotaExceededError('Quota exceeded', { code: 429 }, { retryDelay: '37s' });
+    const operation = jest.fn().mockRejectedValue(quota);
+
+    await expect(withRetry(operation, { budgetMs: 20000 })).rejects.toBe(quota);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop waiting when the signal aborts', async () => {
+    const retryableError = new GeminiAPIError('Error', { status: 'UNAVAILABLE' });
+    const operation = jest.fn().mockRejectedValue(retryableError);
+    const controller = new AbortController();
+
+    const pending = withRetry(operation, { baseDelay: 10000, signal: controller.signal });
+    await new Promise(resolve => setImmediate(resolve)); // let the first attempt fail
+    controller.abort('Request cancelled by client');
+
+    await expect(pending).rejects.toBe('Request cancelled by client');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
   it('should wait between retries', async () => {
     const retryableError = new GeminiAPIError('Error', { status: 'UNAVAILABLE' });
     const operation = jest.fn()
@@ -234,7 +406,7 @@ describe('withRetry', () => {
       .mockResolvedValue('success');
 
     const startTime = Date.now();
-    await withRetry(operation, 3, 100);
+    await withRetry(operation, { maxAttempts: 3, baseDelay: 100 });
     const endTime = Date.now();
 
     expect(endTime - startTime).toBeGreaterThanOrEqual(100);
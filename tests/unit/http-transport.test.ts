@@ -0,0 +1,263 @@
+import { StreamableHttpTransport } from '../../src/transports/http.js';
+import {
+  MCPRequest,
+  MessageHandler,
+  NotificationMessage,
+  RequestContext
+} from '../../src/types.js';
+import { rateLimiter } from '../../src/utils/rateLimiter.js';
+
+describe('StreamableHttpTransport', () => {
+  let transport: StreamableHttpTransport;
+  let baseUrl: string;
+  const received: Array<{ request: MCPRequest; context: RequestContext }> = [];
+  const notifications: NotificationMessage[] = [];
+  const closed: string[] = [];
+
+  const handler: MessageHandler = {
+    async handleRequest(request, context) {
+      received.push({ request, context });
+      if (request.params?.delay) {
+        await new Promise(resolve => setTimeout(resolve, request.params!.delay));
+      }
+      if (request.params?.fail) {
+        context.send({
+          jsonrpc: '2.0',
+          id: request.id,
+          error: { code: -32602, message: 'Unsupported protocol version' }
+        });
+        return;
+      }
+      context.send({ jsonrpc: '2.0', method: 'notifications/progress', params: { progress: 1 } });
+      context.send({ jsonrpc: '2.0', id: request.id, result: { echo: request.method } });
+    },
+    handleNotification(notification) {
+      notifications.push(notification);
+    },
+    closeSession(sessionId) {
+      closed.push(sessionId);
+    }
+  };
+
+  const post = (body: unknown, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...headers
+      },
+      body: typeof body === 'string' ? body : JSON.stringify(body)
+    });
+
+  const initialize = async () => {
+    const res = await post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+    await res.text();
+    return res.headers.get('mcp-session-id')!;
+  };
+
+  beforeEach(async () => {
+    received.length = 0;
+    notifications.length = 0;
+    closed.length = 0;
+    transport = new StreamableHttpTransport(handler, { port: 0, host: '127.0.0.1' });
+    await transport.start();
+    baseUrl = `http://127.0.0.1:${transport.address().port}`;
+  });
+
+  afterEach(async () => {
+    await transport.close();
+  });
+
+  afterAll(() => {
+    rateLimiter.destroy();
+  });
+
+  it('should create a session on initialize', async () => {
+    const sessionId = await initialize();
+
+    expect(sessionId).toBeTruthy();
+    expect(received[0].context.sessionId).toBe(sessionId);
+  });
+
+  it('should not create a session when initialize fails', async () => {
+    const res = await post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { fail: true } });
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).error.code).toBe(-32602);
+    expect(res.headers.get('mcp-session-id')).toBeNull();
+    expect(closed).toEqual([received[0].context.sessionId]);
+
+    const retry = await post(
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      { 'Mcp-Session-Id': received[0].context.sessionId }
+    );
+    expect(retry.status).toBe(404);
+  });
+
+  it('should close sessions that stay idle past the timeout', async () => {
+    await transport.close();
+    transport = new StreamableHttpTransport(handler, {
+      port: 0,
+      host: '127.0.0.1',
+      sessionIdleTimeoutMs: 50
+    });
+    await transport.start();
+    baseUrl = `http://127.0.0.1:${transport.address().port}`;
+
+    const sessionId = await initialize();
+    await new Promise(resolve => setTimeout(resolve, 150));
+    const res = await post(
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      { 'Mcp-Session-Id': sessionId }
+    );
+
+    expect(res.status).toBe(404);
+    expect(closed).toEqual([sessionId]);
+  });
+
+  it('should not expire sessions while a request is in flight', async () => {
+    await transport.close();
+    transport = new StreamableHttpTransport(handler, {
+      port: 0,
+      host: '127.0.0.1',
+      sessionIdleTimeoutMs: 50
+    });
+    await transport.start();
+    baseUrl = `http://127.0.0.1:${transport.address().port}`;
+
+    const sessionId = await initialize();
+    const slow = await post(
+      { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { delay: 150 } },
+      { 'Mcp-Session-Id': sessionId, Accept: 'application/json' }
+    );
+    expect((await slow.json()).result).toEqual({ echo: 'tools/call' });
+    expect(closed).toEqual([]);
+
+    // The idle timeout counts from when the response completed
+    const res = await post(
+      { jsonrpc: '2.0', id: 3, method: 'tools/list' },
+      { 'Mcp-Session-Id': sessionId, Accept: 'application/json' }
+    );
+    expect(res.status).toBe(200);
+  });
+
+  it('should stream notifications and the response as SSE', async () => {
+    const sessionId = await initialize();
+    const res = await post(
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      { 'Mcp-Session-Id': sessionId }
+    );
+    const text = await res.text();
+
+    expect(res.headers.get('content-type')).toBe('text/event-stream');
+    const events = text
+      .split('\n')
+      .filter(line => line.startsWith('data: '))
+      .map(line => JSON.parse(line.slice(6)));
+    expect(events).toEqual([
+      { jsonrpc: '2.0', method: 'notifications/progress', params: { progress: 1 } },
+      { jsonrpc: '2.0', id: 2, result: { echo: 'tools/list' } }
+    ]);
+  });
+
+  it('should answer with JSON when the client does not accept SSE', async () => {
+    const sessionId = await initialize();
+    const res = await post(
+      [
+        { jsonrpc: '2.0', id: 3, method: 'tools/list' },
+        { jsonrpc: '2.0', id: 4, method: 'prompts/list' }
+      ],
+      { 'Mcp-Session-Id': sessionId, Accept: 'application/json' }
+    );
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual([
+      { jsonrpc: '2.0', id: 3, result: { echo: 'tools/list' } },
+      { jsonrpc: '2.0', id: 4, result: { echo: 'prompts/list' } }
+    ]);
+  });
+
+  it('should accept notifications with 202', async () => {
+    const sessionId = await initialize();
+    const res = await post(
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { 'Mcp-Session-Id': sessionId }
+    );
+
+    expect(res.status).toBe(202);
+    expect(notifications.map(notification => notification.method)).toEqual([
+      'notifications/initialized'
+    ]);
+    expect(received).toHaveLength(1);
+  });
+
+  it('should answer invalid batch entries alongside the valid ones', async () => {
+    const sessionId = await initialize();
+    const res = await post(
+      [
+        { jsonrpc: '2.0', id: 7, method: 'tools/list' },
+        { jsonrpc: '2.0', method: 'notifications/initialized' },
+        { jsonrpc: '1.0', id: 8, method: 'tools/list' }
+      ],
+      { 'Mcp-Session-Id': sessionId, Accept: 'application/json' }
+    );
+
+    expect(await res.json()).toEqual([
+      { jsonrpc: '2.0', id: 7, result: { echo: 'tools/list' } },
+      {
+        jsonrpc: '2.0',
+        id: 8,
+        error: { code: -32600, message: 'Invalid Request: jsonrpc must be "2.0"' }
+      }
+    ]);
+  });
+
+  it('should reject a single invalid message with 400', async () => {
+    const res = await post({ jsonrpc: '2.0', id: 9 });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.code).toBe(-32600);
+  });
+
+  it('should require a session header after initialize', async () => {
+    const res = await post({ jsonrpc: '2.0', id: 5, method: 'tools/list' });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('should reject unknown sessions with 404', async () => {
+    const res = await post(
+      { jsonrpc: '2.0', id: 6, method: 'tools/list' },
+      { 'Mcp-Session-Id': 'missing' }
+    );
+
+    expect(res.status).toBe(404);
+  });
+
+  it('should return a parse error for invalid JSON', async () => {
+    const res = await post('{not json');
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: -32700, message: 'Parse error' }
+    });
+  });
+
+  it('should terminate sessions on DELETE', async () => {
+    const sessionId = await initialize();
+    const del = await fetch(`${baseUrl}/mcp`, {
+      method: 'DELETE',
+      headers: { 'Mcp-Session-Id': sessionId }
+    });
+    const res = await post(
+      { jsonrpc: '2.0', id: 7, method: 'tools/list' },
+      { 'Mcp-Session-Id': sessionId }
+    );
+
+    expect(del.status).toBe(204);
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,113 @@
+import { classifyMessage, dispatchMessage, parsePayload } from '../../src/transports/jsonrpc.js';
+import { MessageHandler } from '../../src/types.js';
+import { ParseError } from '../../src/utils/errors.js';
+import { rateLimiter } from '../../src/utils/rateLimiter.js';
+
+describe('classifyMessage', () => {
+  it('should tell requests, notifications and responses apart', () => {
+    expect(classifyMessage({ jsonrpc: '2.0', id: 1, method: 'tools/list' }).type).toBe('request');
+    expect(classifyMessage({ jsonrpc: '2.0', id: 'a', method: 'ping', params: {} }).type).toBe(
+      'request'
+    );
+    expect(classifyMessage({ jsonrpc: '2.0', method: 'notifications/initialized' }).type).toBe(
+      'notification'
+    );
+    expect(classifyMessage({ jsonrpc: '2.0', id: 1, result: {} }).type).toBe('response');
+    expect(
+      classifyMessage({ jsonrpc: '2.0', id: 1, error: { code: -1, message: 'no' } }).type
+    ).toBe('response');
+  });
+
+  it('should flag invalid messages with the ID when it can be recovered', () => {
+    expect(classifyMessage({ jsonrpc: '1.0', id: 5, method: 'ping' })).toMatchObject({
+      type: 'invalid',
+      id: 5,
+      error: { code: -32600 }
+    });
+    expect(classifyMessage({ jsonrpc: '2.0', id: null, method: 'ping' })).toMatchObject({
+      type: 'invalid',
+      id: null
+    });
+    expect(classifyMessage({ jsonrpc: '2.0', id: 1, method: 'ping', params: 'x' })).toMatchObject({
+      type: 'invalid',
+      id: 1
+    });
+    expect(classifyMessage('ping')).toMatchObject({ type: 'invalid', id: null });
+    expect(classifyMessage({ jsonrpc: '2.0', id: 1 })).toMatchObject({ type: 'invalid' });
+  });
+});
+
+describe('parsePayload', () => {
+  it('should parse single messages and batches', () => {
+    expect(parsePayload('{"jsonrpc":"2.0","method":"ping","id":1}')).toMatchObject({
+      batch: false,
+      messages: [{ type: 'request' }]
+    });
+    expect(
+      parsePayload('[{"jsonrpc":"2.0","method":"ping","id":1},{"jsonrpc":"2.0","method":"x"}]')
+    ).toMatchObject({ batch: true, messages: [{ type: 'request' }, { type: 'notification' }] });
+  });
+
+  it('should answer an empty batch with a single error', () => {
+    expect(parsePayload('[]')).toMatchObject({
+      batch: false,
+      messages: [{ type: 'invalid', id: null }]
+    });
+  });
+
+  it('should throw a -32700 parse error for invalid JSON', () => {
+    let caught: unknown;
+    try {
+      parsePayload('{oops');
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(caught).toBeInstanceOf(ParseError);
+    expect((caught as ParseError).toMCPResponse(null)).toEqual({
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: -32700, message: 'Parse error' }
+    });
+  });
+});
+
+describe('dispatchMessage', () => {
+  const handler = {
+    handleRequest: jest.fn(async () => undefined),
+    handleNotification: jest.fn(),
+    handleResponse: jest.fn()
+  } satisfies MessageHandler;
+
+  afterAll(() => {
+    rateLimiter.destroy();
+  });
+
+  it('should route each kind of message to its handler', async () => {
+    const send = jest.fn();
+    const context = { sessionId: 'test', send };
+
+    for (const message of parsePayload(
+      JSON.stringify([
+        { jsonrpc: '2.0', id: 1, method: 'tools/list' },
+        { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 1 } },
+        { jsonrpc: '2.0', id: 'server-1', result: {} },
+        { jsonrpc: '2.0', method: 7 }
+      ])
+    ).messages) {
+      await dispatchMessage(handler, message, context);
+    }
+
+    expect(handler.handleRequest).toHaveBeenCalledTimes(1);
+    expect(handler.handleNotification).toHaveBeenCalledWith(
+      { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 1 } },
+      context
+    );
+    expect(handler.handleResponse).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledWith({
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: -32600, message: 'Invalid Request: method must be a non-empty string' }
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { logger, meetsLevel, runInSession, toLoggingLevel } from '../../src/utils/logger.js';
+
+describe('Logger', () => {
+  it('should deliver records to sinks with the logger name and structured data', () => {
+    const sink = jest.fn();
+    const removeSink = logger.addSink(sink);
+
+    logger.child('transport.http').warn('Slow client', { sessionId: 'abc' });
+    logger.debug('Below the stderr level but still forwarded');
+    removeSink();
+    logger.info('After removal');
+
+    expect(sink).toHaveBeenCalledTimes(2);
+    expect(sink).toHaveBeenNthCalledWith(
+      1,
+      {
+        level: 'warning',
+        logger: 'transport.http',
+        data: { message: 'Slow client', details: { sessionId: 'abc' } }
+      },
+      undefined
+    );
+    expect(sink).toHaveBeenNthCalledWith(
+      2,
+      {
+        level: 'debug',
+        logger: 'server',
+        data: { message: 'Below the stderr level but still forwarded' }
+      },
+      undefined
+    );
+  });
+
+  it('should keep error details when logging Error objects', () => {
+    const sink = jest.fn();
+    const removeSink = logger.addSink(sink);
+
+    logger.error('Request failed', new TypeError('boom'));
+    removeSink();
+
+    expect(sink.mock.calls[0][0].data).toEqual({
+      message: 'Request failed',
+      details: { name: 'TypeError', message: 'boom' }
+    });
+  });
+
+  it('should attribute records to the session they were logged in', async () => {
+    const received: Record<string, string[]> = { a: [], b: [], none: [] };
+    const removeSink = logger.addSink((record, sessionId) =>
+      received[sessionId ?? 'none'].push(record.data.message as string)
+    );
+
+    // Interleave two sessions across awaits; neither may see the other's records
+    const work = (sessionId: string) =>
+      runInSession(sessionId, async () => {
+        logger.info(`${sessionId} started`);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        logger.child('fallback').warn(`${sessionId} resumed`);
+      });
+    await Promise.all([work('a'), work('b')]);
+    logger.info('Outside any session');
+    removeSink();
+
+    expect(received).toEqual({
+      a: ['a started', 'a resumed'],
+      b: ['b started', 'b resumed'],
+      none: ['Outside any session']
+    });
+  });
+
+  it('should not recurse when a sink logs', () => {
+    const sink = jest.fn(() => logger.info('Logged from inside a sink'));
+    const removeSink = logger.addSink(sink);
+
+    logger.info('Outer');
+    removeSink();
+
+    expect(sink).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('logging levels', () => {
+  it('should order levels by severity', () => {
+    expect(meetsLevel('error', 'warning')).toBe(true);
+    expect(meetsLevel('warning', 'warning')).toBe(true);
+    expect(meetsLevel('info', 'warning')).toBe(false);
+    expect(meetsLevel('emergency', 'debug')).toBe(true);
+  });
+
+  it('should map LOG_LEVEL values onto MCP levels', () => {
+    expect(toLoggingLevel('warn')).toBe('warning');
+    expect(toLoggingLevel('debug')).toBe('debug');
+    expect(toLoggingLevel('bogus')).toBe('info');
+  });
+});
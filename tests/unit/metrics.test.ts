@@ -0,0 +1,34 @@
+import { MetricsCollector } from '../../src/utils/metrics.js';
+
+describe('MetricsCollector', () => {
+  it('should aggregate tool calls and notify listeners', () => {
+    const metrics = new MetricsCollector();
+    const listener = jest.fn();
+    metrics.onUpdate(listener);
+
+    metrics.recordToolCall('generate_text', 100, false);
+    metrics.recordToolCall('generate_text', 300, true);
+    metrics.recordToolCall('count_tokens', 10, false);
+
+    expect(listener).toHaveBeenCalledTimes(3);
+    expect(metrics.snapshot().tools).toEqual({
+      generate_text: { calls: 2, errors: 1, averageDurationMs: 200 },
+      count_tokens: { calls: 1, errors: 0, averageDurationMs: 10 }
+    });
+  });
+
+  it('should aggregate queue waits per model without notifying listeners', () => {
+    const metrics = new MetricsCollector();
+    const listener = jest.fn();
+    metrics.onUpdate(listener);
+
+    metrics.recordQueueWait('gemini-2.5-flash', 0);
+    metrics.recordQueueWait('gemini-2.5-flash', 300);
+    metrics.recordQueueWait('gemini-2.5-flash', 600);
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(metrics.snapshot().queues).toEqual({
+      'gemini-2.5-flash': { calls: 3, queued: 2, averageWaitMs: 300, maxWaitMs: 600 }
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { GoogleGenAI, Model } from '@google/genai';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GEMINI_MODELS, ModelCatalog } from '../../src/models.js';
+import { toJsonSchema } from '../../src/tools/registry.js';
+import { CommonSchemas } from '../../src/utils/validation.js';
+
+const LISTED: Model[] = [
+  {
+    name: 'models/gemini-2.5-flash',
+    displayName: 'Gemini 2.5 Flash',
+    description: 'Stable version of Gemini 2.5 Flash',
+    inputTokenLimit: 1048576,
+    outputTokenLimit: 65536,
+    supportedActions: ['generateContent', 'countTokens', 'createCachedContent']
+  },
+  {
+    name: 'models/gemini-3.0-flash',
+    displayName: 'Gemini 3.0 Flash',
+    inputTokenLimit: 1048576,
+    outputTokenLimit: 65536,
+    supportedActions: ['generateContent', 'countTokens']
+  },
+  {
+    name: 'models/text-embedding-004',
+    inputTokenLimit: 2048,
+    supportedActions: ['embedContent']
+  }
+];
+
+function fakeGenAI(listed: Model[] | Error) {
+  const list = jest.fn(async () => {
+    if (listed instanceof Error) {
+      throw listed;
+    }
+    return (async function* () {
+      yield* listed;
+    })();
+  });
+  const get = jest.fn(async ({ model }: { model: string }) => {
+    throw new Error(`models/${model} is not found`);
+  });
+  return { genAI: { models: { list, get } } as unknown as GoogleGenAI, list, get };
+}
+
+describe('ModelCatalog', () => {
+  let dir: string;
+  let cacheFile: string;
+  let now: number;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'gemini-models-'));
+    cacheFile = join(dir, 'models.json');
+    now = Date.parse('2025-07-01T00:00:00Z');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const createCatalog = () => new ModelCatalog({ cacheFile, ttlMs: 60000, now: () => now });
+
+  it('should start from the static table', () => {
+    const catalog = createCatalog();
+
+    expect(catalog.names()).toEqual(Object.keys(GEMINI_MODELS));
+    expect(catalog.status()).toEqual({
+      source: 'static',
+      count: Object.keys(GEMINI_MODELS).length
+    });
+  });
+
+  it('should merge API limits and methods into the static entries', async () => {
+    const catalog = createCatalog();
+    const { genAI } = fakeGenAI(LISTED);
+
+    await catalog.refresh(genAI);
+
+    expect(catalog.get('gemini-2.5-flash')).toEqual({
+      ...GEMINI_MODELS['gemini-2.5-flash'],
+      contextWindow: 1048576,
+      displayName: 'Gemini 2.5 Flash',
+      inputTokenLimit: 1048576,
+      outputTokenLimit: 65536,
+      supportedActions: ['generateContent', 'countTokens', 'createCachedContent']
+    });
+    expect(catalog.get('gemini-3.0-flash')).toMatchObject({
+      description: 'Gemini 3.0 Flash',
+      features: [],
+      contextWindow: 1048576
+    });
+    expect(catalog.has('text-embedding-004')).toBe(false);
+    expect(catalog.has('gemini-1.5-pro')).toBe(true);
+    expect(catalog.status()).toMatchObject({
+      source: 'api',
+      fetchedAt: '2025-07-01T00:00:00.000Z'
+    });
+  });
+
+  it('should give listed versions of a known model its features', async () => {
+    const catalog = createCatalog();
+    const { genAI } = fakeGenAI([
+      {
+        name: 'models/gemini-2.5-flash-preview-05-20',
+        inputTokenLimit: 1048576,
+        supportedActions: ['generateContent']
+      },
+      {
+        name: 'models/gemini-2.5-flash-lite-preview-06-17',
+        inputTokenLimit: 1048576,
+        supportedActions: ['generateContent']
+      }
+    ]);
+
+    await catalog.refresh(genAI);
+
+    expect(catalog.get('gemini-2.5-flash-preview-05-20')).toMatchObject({
+      features: GEMINI_MODELS['gemini-2.5-flash'].features,
+      thinking: true
+    });
+    expect(catalog.get('gemini-2.5-flash-lite-preview-06-17')?.features).toEqual(
+      GEMINI_MODELS['gemini-2.5-flash-lite'].features
+    );
+  });
+
+  it('should look up static models the listing left out', async () => {
+    const catalog = createCatalog();
+    const { genAI, get } = fakeGenAI(LISTED);
+    get.mockImplementation(async ({ model }) => {
+      if (model !== 'gemini-2.0-pro-experimental') {
+        throw new Error(`models/${model} is not found`);
+      }
+      return {
+        name: `models/${model}`,
+        outputTokenLimit: 8192,
+        supportedActions: ['generateContent']
+      };
+    });
+
+    await catalog.refresh(genAI);
+
+    expect(get).not.toHaveBeenCalledWith({ model: 'gemini-2.5-flash' });
+    expect(catalog.get('gemini-2.0-pro-experimental')).toMatchObject({
+      contextWindow: 2000000,
+      outputTokenLimit: 8192
+    });
+  });
+
+  it('should serve a fresh cache without calling the API', async () => {
+    const { genAI, list } = fakeGenAI(LISTED);
+    await createCatalog().refresh(genAI);
+    expect(JSON.parse(await readFile(cacheFile, 'utf8')).models).toHaveLength(3);
+
+    const catalog = createCatalog();
+    now += 30000;
+    await catalog.refresh(genAI);
+
+    expect(list).toHaveBeenCalledTimes(1);
+    expect(catalog.status().source).toBe('cache');
+    expect(catalog.has('gemini-3.0-flash')).toBe(true);
+  });
+
+  it('should fall back to a stale cache, then to the static table, when offline', async () => {
+    await writeFile(
+      cacheFile,
+      JSON.stringify({
+        fetchedAt: now - 120000,
+        models: [{ ...LISTED[1], name: 'gemini-3.0-flash' }]
+      })
+    );
+    const offline = fakeGenAI(new Error('fetch failed'));
+
+    const catalog = createCatalog();
+    await catalog.refresh(offline.genAI);
+    expect(catalog.status().source).toBe('cache');
+    expect(catalog.has('gemini-3.0-flash')).toBe(true);
+
+    await rm(cacheFile);
+    const uncached = createCatalog();
+    await uncached.refresh(offline.genAI);
+    expect(uncached.status().source).toBe('static');
+    expect(uncached.names()).toEqual(Object.keys(GEMINI_MODELS));
+  });
+
+  it('should notify listeners only when the models change', async () => {
+    const catalog = createCatalog();
+    const listener = jest.fn();
+    catalog.onChange(listener);
+    const { genAI } = fakeGenAI(LISTED);
+
+    await catalog.refresh(genAI);
+    now += 120000;
+    await catalog.refresh(genAI);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('CommonSchemas.geminiModel', () => {
+  it('should validate and advertise the catalogue models, aliases and auto', () => {
+    const schema = CommonSchemas.geminiModel;
+
+    expect(schema.safeParse('gemini-2.5-flash').success).toBe(true);
+    expect(schema.safeParse('gemini-3.0-flash').success).toBe(false);
+    expect(schema.safeParse('fast').success).toBe(true);
+    expect(toJsonSchema(schema)).toEqual({
+      type: 'string',
+      enum: [...Object.keys(GEMINI_MODELS), 'fast', 'smart', 'cheap', 'vision', 'auto']
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { ModelFallback } from '../../src/modelFallback.js';
+import {
+  CircuitOpenError,
+  GeminiAPIError,
+  StreamInterruptedError,
+  ValidationError
+} from '../../src/utils/errors.js';
+
+const overloaded = () => new GeminiAPIError('The model is overloaded.', { code: 503 });
+
+describe('ModelFallback', () => {
+  let fallback: ModelFallback;
+
+  beforeEach(() => {
+    fallback = new ModelFallback({ failureThreshold: 2, resetTimeoutMs: 60000 });
+  });
+
+  it('should follow the chain from the requested model', () => {
+    expect(fallback.candidatesFor('gemini-2.5-pro')).toEqual([
+      'gemini-2.5-pro',
+      'gemini-2.5-flash',
+      'gemini-2.0-flash'
+    ]);
+    expect(fallback.candidatesFor('gemini-2.5-flash')).toEqual([
+      'gemini-2.5-flash',
+      'gemini-2.0-flash'
+    ]);
+    expect(fallback.candidatesFor('gemini-1.5-pro')).toEqual(['gemini-1.5-pro']);
+  });
+
+  it('should use the requested model while it works', async () => {
+    await expect(fallback.call('gemini-2.5-pro', async model => model)).resolves.toEqual({
+      result: 'gemini-2.5-pro',
+      model: 'gemini-2.5-pro',
+      skipped: []
+    });
+  });
+
+  it('should fall back on transient errors and say why', async () => {
+    const operation = jest.fn(async (model: string) => {
+      if (model === 'gemini-2.5-pro') {
+        throw overloaded();
+      }
+      return `answer from ${model}`;
+    });
+
+    await expect(fallback.call('gemini-2.5-pro', operation)).resolves.toEqual({
+      result: 'answer from gemini-2.5-flash',
+      model: 'gemini-2.5-flash',
+      skipped: [{ model: 'gemini-2.5-pro', reason: 'The model is overloaded.' }]
+    });
+  });
+
+  it('should skip a model whose circuit is open', async () => {
+    const operation = jest.fn(async (model: string) => {
+      if (model === 'gemini-2.5-pro') {
+        throw overloaded();
+      }
+      return model;
+    });
+    await fallback.call('gemini-2.5-pro', operation);
+    await fallback.call('gemini-2.5-pro', operation);
+    operation.mockClear();
+
+    const { skipped } = await fallback.call('gemini-2.5-pro', operation);
+
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(operation).toHaveBeenCalledWith('gemini-2.5-flash');
+    expect(skipped).toEqual([
+      { model: 'gemini-2.5-pro', reason: 'circuit open after repeated failures' }
+    ]);
+    expect(fallback.snapshot()['gemini-2.5-pro'].state).toBe('open');
+  });
+
+  it('should rethrow permanent errors without falling back', async () => {
+    const invalid = new GeminiAPIError('Invalid argument', { code: 400 });
+    const operation = jest.fn().mockRejectedValue(invalid);
+
+    await expect(fallback.call('gemini-2.5-pro', operation)).rejects.toBe(invalid);
+    await expect(
+      fallback.call('gemini-2.5-pro', () => Promise.reject(new ValidationError('bad')))
+    ).rejects.toThrow(ValidationError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should leave a half-open circuit as it was after a permanent error', async () => {
+    let now = 0;
+    const solo = new ModelFallback({ chain: [], failureThreshold: 1, now: () => now });
+    await solo.call('gemini-2.5-pro', () => Promise.reject(overloaded())).catch(() => undefined);
+    now = 30000;
+
+    const invalid = new GeminiAPIError('Invalid argument', { code: 400 });
+    await expect(solo.call('gemini-2.5-pro', () => Promise.reject(invalid))).rejects.toBe(invalid);
+    expect(solo.snapshot()['gemini-2.5-pro']).toEqual({ state: 'half-open', failures: 1 });
+
+    // The probe slot was released for the next call
+    await expect(solo.call('gemini-2.5-pro', async () => 'ok')).resolves.toMatchObject({
+      result: 'ok'
+    });
+  });
+
+  it('should not fall back once a stream has sent text', async () => {
+    const interrupted = new StreamInterruptedError(3, overloaded());
+    const operation = jest.fn().mockRejectedValue(interrupted);
+
+    await expect(fallback.call('gemini-2.5-pro', operation)).rejects.toBe(interrupted);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw the last error when every model fails', async () => {
+    const error = overloaded();
+
+    await expect(fallback.call('gemini-2.0-flash', () => Promise.reject(error))).rejects.toBe(
+      error
+    );
+  });
+
+  it('should report an open circuit when there is nothing to fall back to', async () => {
+    const solo = new ModelFallback({ chain: [], failureThreshold: 1 });
+    await solo.call('gemini-2.5-pro', () => Promise.reject(overloaded())).catch(() => undefined);
+
+    await expect(solo.call('gemini-2.5-pro', async () => 'ok')).rejects.toThrow(CircuitOpenError);
+  });
+
+  it('should not judge the model when the call is cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      fallback.call('gemini-2.5-pro', () => Promise.reject(overloaded()), controller.signal)
+    ).rejects.toThrow('The model is overloaded.');
+    expect(fallback.snapshot()['gemini-2.5-pro']).toEqual({ state: 'closed', failures: 0 });
+  });
+});
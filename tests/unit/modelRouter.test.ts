@@ -0,0 +1,76 @@
+import { estimateTokens, ModelRouter } from '../../src/modelRouter.js';
+import { ModelCatalog } from '../../src/models.js';
+import { ValidationError } from '../../src/utils/errors.js';
+
+describe('ModelRouter', () => {
+  const catalog = new ModelCatalog();
+
+  it('should resolve the default aliases to catalogue models', () => {
+    const router = new ModelRouter(catalog);
+
+    expect(router.resolve('smart')).toEqual({
+      model: 'gemini-2.5-pro',
+      requested: 'smart',
+      reason: 'alias for gemini-2.5-pro'
+    });
+    expect(router.resolve('cheap').model).toBe('gemini-2.5-flash-lite');
+    expect(router.names()).toEqual(['fast', 'smart', 'cheap', 'vision', 'auto']);
+  });
+
+  it('should pass concrete model names through', () => {
+    expect(new ModelRouter(catalog).resolve('gemini-2.0-flash')).toEqual({
+      model: 'gemini-2.0-flash',
+      requested: 'gemini-2.0-flash'
+    });
+  });
+
+  it('should let configured aliases add to and override the defaults', () => {
+    const router = new ModelRouter(catalog, {
+      aliases: { fast: 'gemini-2.0-flash-lite', legacy: 'gemini-1.5-pro' }
+    });
+
+    expect(router.resolve('fast').model).toBe('gemini-2.0-flash-lite');
+    expect(router.resolve('legacy').model).toBe('gemini-1.5-pro');
+  });
+
+  it('should reject aliases that point outside the catalogue', () => {
+    const router = new ModelRouter(catalog, { aliases: { fast: 'gemini-9-ultra' } });
+
+    expect(() => router.resolve('fast')).toThrow(
+      new ValidationError('Model alias "fast" points to unknown model gemini-9-ultra')
+    );
+  });
+
+  describe('auto', () => {
+    const router = new ModelRouter(catalog);
+
+    it('should pick the cheapest candidate for a small request', () => {
+      expect(router.resolve('auto', { promptTokens: 1200, maxTokens: 2048 })).toEqual({
+        model: 'gemini-2.5-flash-lite',
+        requested: 'auto',
+        reason: 'first routing candidate that fits ~3248 tokens'
+      });
+    });
+
+    it('should skip candidates without grounding when grounding is needed', () => {
+      expect(router.resolve('auto', { grounding: true, jsonMode: true })).toMatchObject({
+        model: 'gemini-2.5-flash',
+        reason: 'first routing candidate that fits ~0 tokens, grounding, json_mode'
+      });
+    });
+
+    it('should move to a larger context window when the prompt does not fit', () => {
+      expect(router.resolve('auto', { promptTokens: 1500000 }).model).toBe('gemini-2.5-pro');
+    });
+
+    it('should fail when no candidate fits', () => {
+      expect(() => router.resolve('auto', { promptTokens: 5000000 })).toThrow(
+        'No routing candidate fits this request'
+      );
+    });
+  });
+
+  it('should estimate about four characters per token', () => {
+    expect(estimateTokens('a'.repeat(10))).toBe(3);
+  });
+});
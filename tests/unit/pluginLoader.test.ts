@@ -0,0 +1,197 @@
+import { GoogleGenAI } from '@google/genai';
+import { mkdtemp, rm, utimes, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { z } from 'zod';
+import { PluginContext, PluginLoader } from '../../src/plugins/loader.js';
+import { PromptRegistry } from '../../src/prompts/registry.js';
+import { defineTool, ToolRegistry } from '../../src/tools/registry.js';
+import { ConversationStore } from '../../src/utils/conversationStore.js';
+import { rateLimiter } from '../../src/utils/rateLimiter.js';
+
+const summarizeIncident = defineTool({
+  name: 'summarize_incident',
+  description: 'Summarize an incident report',
+  inputSchema: z.object({ report: z.string().min(1) }),
+  handler: ({ report }) => ({ content: [{ type: 'text', text: report.slice(0, 10) }] })
+});
+
+const triagePrompt = {
+  name: 'triage',
+  description: 'Triage a ticket',
+  render: () => [{ role: 'user' as const, content: { type: 'text' as const, text: 'Triage' } }]
+};
+
+describe('PluginLoader', () => {
+  let tools: ToolRegistry;
+  let prompts: PromptRegistry;
+  let modules: Record<string, Record<string, unknown>>;
+  let imported: string[];
+  let loader: PluginLoader;
+  const genAI = {} as GoogleGenAI;
+  const conversations = new ConversationStore();
+
+  beforeEach(() => {
+    tools = new ToolRegistry();
+    prompts = new PromptRegistry();
+    modules = {};
+    imported = [];
+    loader = new PluginLoader(
+      { genAI, conversations, tools, prompts },
+      {
+        baseDir: '/srv/gemini',
+        importModule: async url => {
+          imported.push(url);
+          // Reloads add a version query to bypass the module cache
+          const module = modules[url.split('?')[0]];
+          if (!module) {
+            throw new Error(`Cannot find module '${url}'`);
+          }
+          return module;
+        }
+      }
+    );
+  });
+
+  afterAll(() => {
+    rateLimiter.destroy();
+  });
+
+  it('should register the tools and prompts of a plugin with the shared services', async () => {
+    let received: PluginContext | undefined;
+    modules['team-tools'] = {
+      default: {
+        name: 'team-tools',
+        register(context: PluginContext) {
+          received = context;
+          context.registerTool(summarizeIncident);
+          context.registerPrompt(triagePrompt);
+        }
+      }
+    };
+
+    await expect(loader.loadAll(['team-tools'])).resolves.toEqual([
+      {
+        name: 'team-tools',
+        specifier: 'team-tools',
+        tools: ['summarize_incident'],
+        prompts: ['triage']
+      }
+    ]);
+    expect(tools.has('summarize_incident')).toBe(true);
+    expect(prompts.has('triage')).toBe(true);
+    expect(received?.genAI).toBe(genAI);
+    expect(received?.conversations).toBe(conversations);
+    expect(received?.rateLimiter).toBe(rateLimiter);
+  });
+
+  it('should load local files relative to the base directory', async () => {
+    modules['file:///srv/gemini/plugins/classify.js'] = {
+      default: (context: PluginContext) => context.registerTool(summarizeIncident)
+    };
+
+    const [plugin] = await loader.loadAll(['./plugins/classify.js']);
+
+    expect(plugin.name).toBe('./plugins/classify.js');
+    expect(tools.has('summarize_incident')).toBe(true);
+  });
+
+  it('should report and skip plugins that fail to load', async () => {
+    modules['broken'] = { default: { name: 'broken' } };
+    modules['good'] = { plugin: { name: 'good', register: () => undefined } };
+
+    const loaded = await loader.loadAll(['missing', 'broken', 'good']);
+
+    expect(loaded.map(plugin => plugin.name)).toEqual(['good']);
+    expect(loader.getErrors()).toEqual({
+      missing: "Cannot find module 'missing'",
+      broken: 'Plugin must export a register function or an object with one'
+    });
+  });
+
+  it('should register nothing from a plugin whose names conflict', async () => {
+    tools.register(summarizeIncident);
+    modules['clash'] = {
+      default: (context: PluginContext) => {
+        context.registerPrompt(triagePrompt);
+        context.registerTool(summarizeIncident);
+      }
+    };
+
+    await expect(loader.load('clash')).rejects.toThrow(
+      'Tool name "summarize_incident" conflicts with an existing tool'
+    );
+    expect(prompts.has('triage')).toBe(false);
+  });
+
+  it('should unload a plugin with its tools and prompts', async () => {
+    modules['team-tools'] = {
+      default: (context: PluginContext) => {
+        context.registerTool(summarizeIncident);
+        context.registerPrompt(triagePrompt);
+      }
+    };
+    await loader.load('team-tools');
+
+    expect(loader.unload('team-tools')?.tools).toEqual(['summarize_incident']);
+    expect(tools.has('summarize_incident')).toBe(false);
+    expect(prompts.has('triage')).toBe(false);
+    expect(loader.list()).toEqual([]);
+    expect(loader.unload('team-tools')).toBeUndefined();
+  });
+
+  describe('plugin directory', () => {
+    let directory: string;
+    const url = (file: string) => pathToFileURL(join(directory, file)).href;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'plugins-'));
+    });
+
+    afterEach(async () => {
+      loader.close();
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should load new files, reload changed ones and unload removed ones', async () => {
+      await writeFile(join(directory, 'incidents.js'), '');
+      await writeFile(join(directory, 'notes.txt'), '');
+      modules[url('incidents.js')] = {
+        default: (context: PluginContext) => context.registerTool(summarizeIncident)
+      };
+
+      const [loaded] = await loader.loadDirectory(directory);
+      expect(loaded.tools).toEqual(['summarize_incident']);
+      expect(await loader.loadDirectory(directory)).toEqual([]);
+
+      // A changed file comes back with the tools of its new version
+      await utimes(join(directory, 'incidents.js'), new Date(), new Date(Date.now() + 5000));
+      modules[url('incidents.js')] = {
+        default: (context: PluginContext) => context.registerPrompt(triagePrompt)
+      };
+      await loader.loadDirectory(directory);
+      expect(tools.has('summarize_incident')).toBe(false);
+      expect(prompts.has('triage')).toBe(true);
+      expect(new Set(imported).size).toBe(2);
+
+      await rm(join(directory, 'incidents.js'));
+      const [unloaded] = await loader.loadDirectory(directory);
+      expect(unloaded.prompts).toEqual(['triage']);
+      expect(prompts.has('triage')).toBe(false);
+    });
+
+    it('should report a broken file until it changes', async () => {
+      await writeFile(join(directory, 'broken.js'), '');
+
+      expect(await loader.loadDirectory(directory)).toEqual([]);
+      expect(loader.getErrors()).toEqual({
+        [join(directory, 'broken.js')]: expect.stringContaining('Cannot find module')
+      });
+
+      await rm(join(directory, 'broken.js'));
+      await loader.loadDirectory(directory);
+      expect(loader.getErrors()).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { ProgressReporter } from '../../src/utils/progress.js';
+
+describe('ProgressReporter', () => {
+  const send = jest.fn();
+
+  beforeEach(() => {
+    send.mockReset();
+  });
+
+  it('should do nothing without a progress token', () => {
+    const progress = new ProgressReporter({ send });
+
+    progress.step('Working');
+    const stop = progress.keepAlive('Waiting');
+    stop();
+
+    expect(progress.enabled).toBe(false);
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should send progress notifications for the token', () => {
+    const progress = new ProgressReporter({ progressToken: 'tok', send });
+
+    progress.step('Sending request');
+    progress.report(5, 10, 'Halfway');
+
+    expect(send.mock.calls.map(([message]) => message)).toEqual([
+      {
+        jsonrpc: '2.0',
+        method: 'notifications/progress',
+        params: { progressToken: 'tok', progress: 1, message: 'Sending request' }
+      },
+      {
+        jsonrpc: '2.0',
+        method: 'notifications/progress',
+        params: { progressToken: 'tok', progress: 5, total: 10, message: 'Halfway' }
+      }
+    ]);
+  });
+
+  it('should drop values that do not increase', () => {
+    const progress = new ProgressReporter({ progressToken: 1, send });
+
+    progress.report(3);
+    progress.report(3);
+    progress.report(2);
+
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should step on an interval until stopped', () => {
+    jest.useFakeTimers();
+    const progress = new ProgressReporter({ progressToken: 1, send });
+
+    const stop = progress.keepAlive('Waiting for gemini-2.5-pro', 1000);
+    jest.advanceTimersByTime(3000);
+    stop();
+    jest.advanceTimersByTime(3000);
+    jest.useRealTimers();
+
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(send.mock.calls[2][0].params).toEqual({
+      progressToken: 1,
+      progress: 3,
+      message: 'Waiting for gemini-2.5-pro (3s elapsed)'
+    });
+  });
+});
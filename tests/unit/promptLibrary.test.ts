@@ -0,0 +1,141 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PromptLibrary } from '../../src/prompts/library.js';
+import { PromptRegistry } from '../../src/prompts/registry.js';
+import { BUILTIN_PROMPTS } from '../../src/prompts/builtin.js';
+import { compileTemplate, TemplateError } from '../../src/prompts/template.js';
+
+describe('compileTemplate', () => {
+  it('should substitute variables and render sections', () => {
+    const template = compileTemplate(
+      'Summarize {{ text }}.{{#tone}} Use a {{tone}} tone.{{/tone}}{{^tone}} Be neutral.{{/tone}}'
+    );
+
+    expect(template.variables).toEqual(['text', 'tone']);
+    expect(template.render({ text: 'this', tone: 'dry' })).toBe('Summarize this. Use a dry tone.');
+    expect(template.render({ text: 'this' })).toBe('Summarize this. Be neutral.');
+  });
+
+  it('should report unbalanced sections with line numbers', () => {
+    expect(() => compileTemplate('line one\n{{#a}}x{{/b}}')).toThrow(TemplateError);
+    expect(() => compileTemplate('line one\n{{#a}}x{{/b}}')).toThrow(
+      'Unexpected closing tag {{/b}} on line 2 (expected {{/a}})'
+    );
+    expect(() => compileTemplate('{{#a}}x')).toThrow('Unclosed section {{#a}}');
+    expect(() => compileTemplate('{{ }}')).toThrow('Empty tag');
+  });
+});
+
+describe('PromptLibrary', () => {
+  let directory: string;
+  let registry: PromptRegistry;
+  let library: PromptLibrary;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'prompts-'));
+    registry = new PromptRegistry(BUILTIN_PROMPTS);
+    library = new PromptLibrary(directory, registry);
+  });
+
+  afterEach(async () => {
+    library.close();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should load Markdown prompts with frontmatter', async () => {
+    await writeFile(
+      join(directory, 'summarize.md'),
+      [
+        '---',
+        'name: summarize',
+        'description: Summarize a document',
+        'model: gemini-2.5-flash',
+        'temperature: 0.2',
+        'arguments:',
+        '  - name: text',
+        '    required: true',
+        '---',
+        'Summarize the following:\n\n{{text}}'
+      ].join('\n')
+    );
+
+    await library.load();
+    const result = registry.get('summarize', { text: 'Hello' });
+
+    expect(registry.list().map(prompt => prompt.name)).toContain('summarize');
+    expect(result.description).toBe('Summarize a document');
+    expect(result.messages[0].content.text).toBe('Summarize the following:\n\nHello');
+    expect(result._meta).toEqual({ model: 'gemini-2.5-flash', temperature: 0.2 });
+  });
+
+  it('should load YAML prompts', async () => {
+    await writeFile(
+      join(directory, 'translate.yaml'),
+      [
+        'name: translate',
+        'arguments:',
+        '  - name: text',
+        '    required: true',
+        '  - name: target',
+        '    values: [French, German]',
+        'template: "Translate into {{target}}: {{text}}"'
+      ].join('\n')
+    );
+
+    await library.load();
+
+    expect(
+      registry.get('translate', { text: 'hi', target: 'German' }).messages[0].content.text
+    ).toBe('Translate into German: hi');
+    expect(() => registry.get('translate', { text: 'hi', target: 'Klingon' })).toThrow(
+      'Invalid value for argument target'
+    );
+  });
+
+  it('should report broken files without dropping the others', async () => {
+    await writeFile(join(directory, 'good.yaml'), 'name: good\ntemplate: Hello');
+    await writeFile(join(directory, 'broken.yaml'), 'name: broken\ntemplate: "{{#a}}open"');
+    await writeFile(join(directory, 'undeclared.yaml'), 'name: undeclared\ntemplate: "{{who}}"');
+    await writeFile(join(directory, 'clash.yaml'), 'name: code_review\ntemplate: Hi');
+    await writeFile(join(directory, 'notes.txt'), 'ignored');
+
+    await library.load();
+
+    expect(registry.has('good')).toBe(true);
+    expect(registry.has('broken')).toBe(false);
+    expect(library.getErrors()).toEqual({
+      'broken.yaml': 'Unclosed section {{#a}}',
+      'clash.yaml': 'Prompt name "code_review" conflicts with an existing prompt',
+      'undeclared.yaml': 'Template uses undeclared argument(s): who'
+    });
+  });
+
+  it('should unregister prompts whose files were removed', async () => {
+    await writeFile(join(directory, 'temp.yaml'), 'name: temp\ntemplate: Hello');
+    await library.load();
+    expect(registry.has('temp')).toBe(true);
+
+    await rm(join(directory, 'temp.yaml'));
+    await library.load();
+
+    expect(registry.has('temp')).toBe(false);
+    expect(registry.has('code_review')).toBe(true);
+  });
+
+  it('should report whether the listed prompts changed', async () => {
+    await writeFile(join(directory, 'greet.yaml'), 'name: greet\ntemplate: Hello');
+    expect(await library.load()).toBe(true);
+    expect(await library.load()).toBe(false);
+
+    // Template bodies are not part of prompts/list
+    await writeFile(join(directory, 'greet.yaml'), 'name: greet\ntemplate: Hi there');
+    expect(await library.load()).toBe(false);
+
+    await writeFile(
+      join(directory, 'greet.yaml'),
+      'name: greet\ndescription: Say hello\ntemplate: Hi there'
+    );
+    expect(await library.load()).toBe(true);
+  });
+});
@@ -0,0 +1,85 @@
+import { PromptRegistry } from '../../src/prompts/registry.js';
+import { BUILTIN_PROMPTS } from '../../src/prompts/builtin.js';
+import { ValidationError } from '../../src/utils/errors.js';
+
+describe('PromptRegistry', () => {
+  let registry: PromptRegistry;
+
+  beforeEach(() => {
+    registry = new PromptRegistry(BUILTIN_PROMPTS);
+  });
+
+  it('should list the built-in prompts with their arguments', () => {
+    const prompts = registry.list();
+
+    expect(prompts.map(prompt => prompt.name)).toEqual([
+      'code_review',
+      'explain_with_thinking',
+      'creative_writing'
+    ]);
+    expect(prompts[1].arguments).toEqual([
+      { name: 'topic', description: 'Topic to explain', required: true },
+      {
+        name: 'level',
+        description: 'Explanation level (beginner/intermediate/expert)',
+        required: false
+      }
+    ]);
+  });
+
+  it('should render code_review with the language applied', () => {
+    const result = registry.get('code_review', { code: 'print(1)', language: 'Python' });
+    const text = result.messages[0].content.text;
+
+    expect(result.messages[0].role).toBe('user');
+    expect(text).toContain('the following Python code');
+    expect(text).toContain('```python\nprint(1)\n```');
+  });
+
+  it('should render explain_with_thinking for the requested level', () => {
+    const text = registry.get('explain_with_thinking', { topic: 'monads', level: 'beginner' })
+      .messages[0].content.text;
+
+    expect(text).toContain('for a beginner audience');
+    expect(text).toContain('Assume no prior knowledge');
+  });
+
+  it('should render creative_writing with style and length', () => {
+    const text = registry.get('creative_writing', {
+      prompt: 'A lighthouse keeper',
+      style: 'noir',
+      length: '300 words'
+    }).messages[0].content.text;
+
+    expect(text).toContain('A lighthouse keeper');
+    expect(text).toContain('- Style: noir');
+    expect(text).toContain('- Length: 300 words');
+  });
+
+  it('should name a missing required argument', () => {
+    let caught: unknown;
+    try {
+      registry.get('code_review', {});
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(caught).toBeInstanceOf(ValidationError);
+    expect((caught as ValidationError).message).toBe('Missing required argument: code');
+    expect((caught as ValidationError).code).toBe(-32602);
+    expect((caught as ValidationError).data).toEqual({ argument: 'code' });
+  });
+
+  it('should reject values outside the declared choices', () => {
+    expect(() => registry.get('explain_with_thinking', { topic: 'x', level: 'guru' })).toThrow(
+      'Invalid value for argument level'
+    );
+  });
+
+  it('should reject unknown prompts and arguments', () => {
+    expect(() => registry.get('missing')).toThrow('Unknown prompt: missing');
+    expect(() => registry.get('code_review', { code: 'x', colour: 'red' })).toThrow(
+      'Unknown argument: colour'
+    );
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  adaptToolDefinition,
+  adaptToolResult,
+  getProtocolFeatures,
+  negotiateProtocolVersion,
+  SUPPORTED_PROTOCOL_VERSIONS
+} from '../../src/protocol.js';
+import { ValidationError } from '../../src/utils/errors.js';
+
+describe('Protocol negotiation', () => {
+  describe('negotiateProtocolVersion', () => {
+    it.each(SUPPORTED_PROTOCOL_VERSIONS)('should accept %s', version => {
+      expect(negotiateProtocolVersion(version)).toBe(version);
+    });
+
+    it('should reject unsupported versions with the supported list', () => {
+      let caught: unknown;
+      try {
+        negotiateProtocolVersion('2023-01-01');
+      } catch (error) {
+        caught = error;
+      }
+
+      expect(caught).toBeInstanceOf(ValidationError);
+      expect((caught as ValidationError).code).toBe(-32602);
+      expect((caught as ValidationError).data).toEqual({
+        supported: [...SUPPORTED_PROTOCOL_VERSIONS],
+        requested: '2023-01-01'
+      });
+    });
+
+    it('should reject a missing version', () => {
+      expect(() => negotiateProtocolVersion(undefined)).toThrow(
+        'Missing required parameter: protocolVersion'
+      );
+    });
+  });
+
+  describe('getProtocolFeatures', () => {
+    it('should disable newer features for 2024-11-05', () => {
+      expect(getProtocolFeatures('2024-11-05', { elicitation: {} })).toEqual({
+        toolAnnotations: false,
+        structuredToolOutput: false,
+        elicitation: false
+      });
+    });
+
+    it('should enable tool annotations from 2025-03-26', () => {
+      expect(getProtocolFeatures('2025-03-26')).toEqual({
+        toolAnnotations: true,
+        structuredToolOutput: false,
+        elicitation: false
+      });
+    });
+
+    it('should require the client capability for elicitation', () => {
+      expect(getProtocolFeatures('2025-06-18').elicitation).toBe(false);
+      expect(getProtocolFeatures('2025-06-18', { elicitation: {} })).toEqual({
+        toolAnnotations: true,
+        structuredToolOutput: true,
+        elicitation: true
+      });
+    });
+  });
+
+  describe('adapting tools and results', () => {
+    const tool = {
+      name: 'list_models',
+      inputSchema: { type: 'object' },
+      outputSchema: { type: 'object' },
+      annotations: { readOnlyHint: true }
+    };
+
+    it('should strip fields unknown to older versions', () => {
+      expect(adaptToolDefinition(tool, getProtocolFeatures('2024-11-05'))).toEqual({
+        name: 'list_models',
+        inputSchema: { type: 'object' }
+      });
+    });
+
+    it('should keep fields for newer versions', () => {
+      expect(adaptToolDefinition(tool, getProtocolFeatures('2025-06-18'))).toEqual(tool);
+    });
+
+    it('should strip structuredContent for older versions', () => {
+      const result = { content: [], structuredContent: { count: 1 } };
+
+      expect(adaptToolResult(result, getProtocolFeatures('2025-03-26'))).toEqual({ content: [] });
+      expect(adaptToolResult(result, getProtocolFeatures('2025-06-18'))).toEqual(result);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { RateLimitError } from '../../src/utils/errors.js';
+import { RateLimiter, SlidingWindow } from '../../src/utils/rateLimiter.js';
+
+describe('SlidingWindow', () => {
+  it('should expire each entry a window after it was added', () => {
+    const window = new SlidingWindow(1000);
+    window.add(1, 0);
+    window.add(1, 400);
+
+    expect(window.usage(999)).toBe(2);
+    expect(window.usage(1000)).toBe(1);
+    expect(window.usage(1400)).toBe(0);
+  });
+
+  it('should tell how long until the usage drops below a limit', () => {
+    const window = new SlidingWindow(1000);
+    window.add(300, 0);
+    window.add(500, 200);
+
+    expect(window.waitFor(900, 500)).toBe(0);
+    expect(window.waitFor(800, 500)).toBe(500);
+    expect(window.waitFor(600, 500)).toBe(500);
+    expect(window.waitFor(100, 500)).toBe(700);
+  });
+});
+
+describe('RateLimiter', () => {
+  let now: number;
+  let limiters: RateLimiter[];
+
+  beforeEach(() => {
+    now = 0;
+    limiters = [];
+  });
+
+  afterEach(() => {
+    limiters.forEach(limiter => limiter.destroy());
+  });
+
+  const createLimiter = (options: ConstructorParameters<typeof RateLimiter>[0]) => {
+    const limiter = new RateLimiter({ now: () => now, ...options });
+    limiters.push(limiter);
+    return limiter;
+  };
+
+  it('should limit tool calls per session and tool', async () => {
+    const limiter = createLimiter({ maxRequests: 2, windowMs: 60000 });
+
+    await limiter.acquireToolCall('a', 'generate_text');
+    await limiter.acquireToolCall('a', 'generate_text');
+    await limiter.acquireToolCall('a', 'count_tokens');
+    await limiter.acquireToolCall('b', 'generate_text');
+
+    now = 30000;
+    const rejected = limiter.acquireToolCall('a', 'generate_text');
+    await expect(rejected).rejects.toBeInstanceOf(RateLimitError);
+    await expect(rejected).rejects.toMatchObject({
+      message: 'Rate limit exceeded for session a, tool generate_text. Try again in 30 seconds.',
+      code: -32002,
+      data: { scope: 'session a, tool generate_text', limit: 2, retryAfterMs: 30000 }
+    });
+
+    now = 60000;
+    await expect(limiter.acquireToolCall('a', 'generate_text')).resolves.toBe(0);
+  });
+
+  it('should enforce the requests per minute and per day of a model', async () => {
+    const limiter = createLimiter({
+      models: { 'gemini-2.5-pro': { rpm: 2, rpd: 3 } }
+    });
+
+    await limiter.acquireModelCall('gemini-2.5-pro');
+    await limiter.acquireModelCall('gemini-2.5-pro');
+    await expect(limiter.acquireModelCall('gemini-2.5-pro')).rejects.toThrow(
+      'Rate limit exceeded for gemini-2.5-pro requests per minute. Try again in 60 seconds.'
+    );
+
+    now = 60000;
+    await limiter.acquireModelCall('gemini-2.5-pro');
+    await expect(limiter.acquireModelCall('gemini-2.5-pro')).rejects.toThrow(
+      'gemini-2.5-pro requests per day'
+    );
+    await expect(limiter.acquireModelCall('gemini-2.5-flash')).resolves.toBe(0);
+  });
+
+  it('should hold calls while the tokens of the last minute reach the TPM quota', async () => {
+    const limiter = createLimiter({ models: { 'gemini-2.5-flash': { tpm: 1000 } } });
+
+    await limiter.acquireModelCall('gemini-2.5-flash');
+    limiter.recordTokens('gemini-2.5-flash', 1200);
+
+    await expect(limiter.acquireModelCall('gemini-2.5-flash')).rejects.toThrow(
+      'gemini-2.5-flash tokens per minute'
+    );
+    expect(limiter.getUsage()).toEqual({ 'gemini-2.5-flash tokens per minute': 1200 });
+
+    now = 60000;
+    await expect(limiter.acquireModelCall('gemini-2.5-flash')).resolves.toBe(0);
+  });
+
+  it('should wait for room instead of rejecting in wait mode', async () => {
+    const limiter = new RateLimiter({ maxRequests: 1, windowMs: 50, mode: 'wait' });
+    limiters.push(limiter);
+
+    await limiter.acquireToolCall('a', 'generate_text');
+    const waitMs = await limiter.acquireToolCall('a', 'generate_text');
+
+    expect(waitMs).toBeGreaterThanOrEqual(40);
+  });
+
+  it('should stop waiting when the call is aborted', async () => {
+    const limiter = createLimiter({ maxRequests: 1, mode: 'wait' });
+    const controller = new AbortController();
+
+    await limiter.acquireToolCall('a', 'generate_text');
+    const waiting = limiter.acquireToolCall('a', 'generate_text', controller.signal);
+    controller.abort(new Error('Request cancelled'));
+
+    await expect(waiting).rejects.toThrow('Request cancelled');
+  });
+
+  it('should admit everything when disabled', async () => {
+    const limiter = createLimiter({ enabled: false, maxRequests: 1 });
+
+    await limiter.acquireToolCall('a', 'generate_text');
+    await expect(limiter.acquireToolCall('a', 'generate_text')).resolves.toBe(0);
+  });
+});
@@ -0,0 +1,57 @@
+import { RequestRegistry } from '../../src/utils/requestRegistry.js';
+
+describe('RequestRegistry', () => {
+  let registry: RequestRegistry;
+
+  beforeEach(() => {
+    registry = new RequestRegistry();
+  });
+
+  it('should abort the signal of a cancelled request', () => {
+    const signal = registry.begin('session', 1, 'tools/call');
+
+    expect(registry.cancel('session', 1, 'User pressed stop')).toBe(true);
+    expect(signal.aborted).toBe(true);
+    expect(signal.reason).toBe('User pressed stop');
+  });
+
+  it('should ignore cancellations for unknown or finished requests', () => {
+    registry.begin('session', 1, 'tools/call');
+    registry.end('session', 1);
+
+    expect(registry.cancel('session', 1)).toBe(false);
+    expect(registry.cancel('session', 2)).toBe(false);
+    expect(registry.size).toBe(0);
+  });
+
+  it('should scope request IDs to their session', () => {
+    const mine = registry.begin('session-a', 1, 'tools/call');
+    const theirs = registry.begin('session-b', 1, 'tools/call');
+
+    registry.cancel('session-b', 1);
+
+    expect(mine.aborted).toBe(false);
+    expect(theirs.aborted).toBe(true);
+  });
+
+  it('should distinguish numeric and string IDs', () => {
+    const numeric = registry.begin('session', 1, 'tools/call');
+    registry.begin('session', '1', 'tools/call');
+
+    registry.cancel('session', '1');
+
+    expect(numeric.aborted).toBe(false);
+  });
+
+  it('should cancel every request of a closed session', () => {
+    const first = registry.begin('session', 1, 'tools/call');
+    const second = registry.begin('session', 2, 'resources/read');
+    const other = registry.begin('other', 1, 'tools/call');
+
+    registry.cancelSession('session');
+
+    expect(first.aborted).toBe(true);
+    expect(second.aborted).toBe(true);
+    expect(other.aborted).toBe(false);
+  });
+});
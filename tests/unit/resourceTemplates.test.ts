@@ -0,0 +1,77 @@
+import {
+  matchResourceTemplate,
+  renderModelCard,
+  renderTranscript
+} from '../../src/resources/templates.js';
+import { ValidationError } from '../../src/utils/errors.js';
+
+describe('matchResourceTemplate', () => {
+  it('should match model and conversation URIs', () => {
+    expect(matchResourceTemplate('gemini://models/gemini-2.5-pro')).toEqual({
+      type: 'model',
+      name: 'gemini-2.5-pro'
+    });
+    expect(matchResourceTemplate('gemini://conversations/chat%201')).toEqual({
+      type: 'conversation',
+      id: 'chat 1',
+      format: 'markdown'
+    });
+    expect(matchResourceTemplate('gemini://conversations/chat-1?format=json')).toEqual({
+      type: 'conversation',
+      id: 'chat-1',
+      format: 'json'
+    });
+  });
+
+  it('should leave fixed resources and other URIs alone', () => {
+    expect(matchResourceTemplate('gemini://models')).toBeUndefined();
+    expect(matchResourceTemplate('gemini://help/usage')).toBeUndefined();
+    expect(matchResourceTemplate('gemini://conversations/a/b')).toBeUndefined();
+    expect(matchResourceTemplate('file:///etc/passwd')).toBeUndefined();
+    expect(matchResourceTemplate('not a uri')).toBeUndefined();
+  });
+
+  it('should reject unknown transcript formats', () => {
+    expect(() => matchResourceTemplate('gemini://conversations/x?format=xml')).toThrow(
+      ValidationError
+    );
+  });
+});
+
+describe('resource rendering', () => {
+  const history = [
+    { role: 'user', parts: [{ text: 'What is MCP?' }] },
+    { role: 'model', parts: [{ text: 'A protocol.' }, { text: 'For tools.' }] }
+  ];
+
+  it('should render transcripts as Markdown', () => {
+    expect(renderTranscript('chat-1', history, 'markdown')).toBe(
+      '# Conversation chat-1\n\n## User\n\nWhat is MCP?\n\n## Gemini\n\nA protocol.\nFor tools.'
+    );
+  });
+
+  it('should render transcripts as JSON', () => {
+    expect(JSON.parse(renderTranscript('chat-1', history, 'json'))).toEqual({
+      id: 'chat-1',
+      messages: [
+        { role: 'user', text: 'What is MCP?' },
+        { role: 'model', text: 'A protocol.\nFor tools.' }
+      ]
+    });
+  });
+
+  it('should render model cards', () => {
+    const card = renderModelCard('gemini-2.5-flash', {
+      description: 'Fast thinking model',
+      features: ['thinking', 'json_mode'],
+      contextWindow: 1000000,
+      thinking: true,
+      outputTokenLimit: 65536
+    });
+
+    expect(card).toContain('# gemini-2.5-flash');
+    expect(card).toContain('- **Context window:** 1,000,000 tokens');
+    expect(card).toContain('- **Output limit:** 65,536 tokens');
+    expect(card).toContain('- **Features:** thinking, json_mode');
+  });
+});
@@ -0,0 +1,125 @@
+import { LegacySseTransport } from '../../src/transports/sse.js';
+import { MessageHandler } from '../../src/types.js';
+import { rateLimiter } from '../../src/utils/rateLimiter.js';
+
+describe('LegacySseTransport', () => {
+  let transport: LegacySseTransport;
+  let baseUrl: string;
+  const closed: string[] = [];
+
+  const handler: MessageHandler = {
+    async handleRequest(request, context) {
+      context.send({ jsonrpc: '2.0', id: request.id, result: { sessionId: context.sessionId } });
+    },
+    closeSession(sessionId) {
+      closed.push(sessionId);
+    }
+  };
+
+  /**
+   * Open an SSE stream and return a reader yielding parsed events
+   */
+  const connect = async () => {
+    const controller = new AbortController();
+    const res = await fetch(`${baseUrl}/sse`, { signal: controller.signal });
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const nextEvent = async (): Promise<{ event: string; data: string }> => {
+      while (!buffer.includes('\n\n')) {
+        const { value } = await reader.read();
+        buffer += decoder.decode(value);
+      }
+      const [raw] = buffer.split('\n\n', 1);
+      buffer = buffer.slice(raw.length + 2);
+      const event = raw.match(/^event: (.*)$/m)?.[1] ?? 'message';
+      const data = raw.match(/^data: (.*)$/m)?.[1] ?? '';
+      return { event, data };
+    };
+
+    const endpoint = await nextEvent();
+    return { endpoint: endpoint.data, nextEvent, close: () => controller.abort() };
+  };
+
+  beforeEach(async () => {
+    closed.length = 0;
+    transport = new LegacySseTransport(handler, { port: 0, host: '127.0.0.1' });
+    await transport.start();
+    baseUrl = `http://127.0.0.1:${transport.address().port}`;
+  });
+
+  afterEach(async () => {
+    await transport.close();
+  });
+
+  afterAll(() => {
+    rateLimiter.destroy();
+  });
+
+  it('should announce the message endpoint', async () => {
+    const client = await connect();
+
+    expect(client.endpoint).toMatch(/^\/messages\?sessionId=[\w-]+$/);
+    client.close();
+  });
+
+  it('should route responses to the stream of the posting session', async () => {
+    const first = await connect();
+    const second = await connect();
+
+    const res = await fetch(`${baseUrl}${second.endpoint}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+    const event = await second.nextEvent();
+    const sessionId = second.endpoint.split('=')[1];
+
+    expect(res.status).toBe(202);
+    expect(JSON.parse(event.data)).toEqual({ jsonrpc: '2.0', id: 1, result: { sessionId } });
+    first.close();
+    second.close();
+  });
+
+  it('should send the replies to a batch as one array', async () => {
+    const client = await connect();
+    const sessionId = client.endpoint.split('=')[1];
+
+    await fetch(`${baseUrl}${client.endpoint}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify([
+        { jsonrpc: '2.0', id: 1, method: 'tools/list' },
+        { jsonrpc: '2.0', method: 'notifications/initialized' },
+        { jsonrpc: '2.0', id: 2, method: 'prompts/list' }
+      ])
+    });
+    const event = await client.nextEvent();
+
+    expect(JSON.parse(event.data)).toEqual([
+      { jsonrpc: '2.0', id: 1, result: { sessionId } },
+      { jsonrpc: '2.0', id: 2, result: { sessionId } }
+    ]);
+    client.close();
+  });
+
+  it('should reject messages for unknown sessions', async () => {
+    const res = await fetch(`${baseUrl}/messages?sessionId=missing`, {
+      method: 'POST',
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+
+    expect(res.status).toBe(404);
+  });
+
+  it('should close the session when the stream disconnects', async () => {
+    const client = await connect();
+    const sessionId = client.endpoint.split('=')[1];
+    client.close();
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(closed).toContain(sessionId);
+  });
+});
@@ -0,0 +1,44 @@
+import { ResourceSubscriptions } from '../../src/resources/subscriptions.js';
+import { ValidationError } from '../../src/utils/errors.js';
+
+describe('ResourceSubscriptions', () => {
+  let subscriptions: ResourceSubscriptions;
+
+  beforeEach(() => {
+    subscriptions = new ResourceSubscriptions();
+  });
+
+  it('should find subscriptions per session and across sessions', () => {
+    subscriptions.subscribe('a', 'gemini://metrics');
+    subscriptions.subscribe('a', 'gemini://conversations/chat');
+    subscriptions.subscribe('b', 'gemini://metrics');
+
+    expect(subscriptions.find('a', uri => uri.startsWith('gemini://conversations/'))).toEqual([
+      'gemini://conversations/chat'
+    ]);
+    expect(subscriptions.findAll(uri => uri === 'gemini://metrics')).toEqual([
+      { sessionId: 'a', uri: 'gemini://metrics' },
+      { sessionId: 'b', uri: 'gemini://metrics' }
+    ]);
+  });
+
+  it('should unsubscribe and clear sessions', () => {
+    subscriptions.subscribe('a', 'gemini://metrics');
+    subscriptions.subscribe('b', 'gemini://metrics');
+
+    expect(subscriptions.unsubscribe('a', 'gemini://metrics')).toBe(true);
+    expect(subscriptions.unsubscribe('a', 'gemini://metrics')).toBe(false);
+
+    subscriptions.clearSession('b');
+    expect(subscriptions.findAll(() => true)).toEqual([]);
+  });
+
+  it('should reject unsubscribing without a uri as invalid params', () => {
+    for (const uri of [undefined, '', 42]) {
+      expect(() => subscriptions.unsubscribe('a', uri)).toThrow(ValidationError);
+    }
+    expect(() => subscriptions.unsubscribe('a', undefined)).toThrow(
+      expect.objectContaining({ code: -32602, message: 'Missing required parameter: uri' })
+    );
+  });
+});
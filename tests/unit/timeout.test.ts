@@ -0,0 +1,54 @@
+import { TimeoutError } from '../../src/utils/errors.js';
+import { withTimeout } from '../../src/utils/timeout.js';
+
+describe('withTimeout', () => {
+  it('should return the result of an operation that finishes in time', async () => {
+    await expect(withTimeout(async () => 'done', 1000)).resolves.toBe('done');
+  });
+
+  it('should abort the operation and reject with the elapsed time and limit', async () => {
+    let received: AbortSignal | undefined;
+    const operation = (signal: AbortSignal) => {
+      received = signal;
+      return new Promise<never>((_, reject) =>
+        signal.addEventListener('abort', () => reject(new Error('This operation was aborted')))
+      );
+    };
+
+    const error = await withTimeout(operation, 20, { label: 'Tool slow' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.message).toMatch(/^Tool slow timed out after \d+ms \(limit 20ms\)$/);
+    expect(error.data).toEqual({ elapsedMs: expect.any(Number), timeoutMs: 20 });
+    expect(error.data.elapsedMs).toBeGreaterThanOrEqual(19);
+    expect(received?.aborted).toBe(true);
+  });
+
+  it('should give up on operations that ignore the signal', async () => {
+    const never = () => new Promise<never>(() => undefined);
+
+    await expect(withTimeout(never, 10)).rejects.toThrow(TimeoutError);
+  });
+
+  it('should pass cancellation of the parent signal through', async () => {
+    const parent = new AbortController();
+    const pending = withTimeout(
+      signal =>
+        new Promise<never>((_, reject) =>
+          signal.addEventListener('abort', () => reject(signal.reason))
+        ),
+      1000,
+      { signal: parent.signal }
+    );
+
+    parent.abort('Request cancelled by client');
+
+    await expect(pending).rejects.toBe('Request cancelled by client');
+  });
+
+  it('should not set a deadline for a limit of 0', async () => {
+    const slow = () => new Promise(resolve => setTimeout(() => resolve('late'), 20));
+
+    await expect(withTimeout(slow, 0)).resolves.toBe('late');
+  });
+});
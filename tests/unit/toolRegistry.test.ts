@@ -0,0 +1,315 @@
+import { z } from 'zod';
+import { loadConfig } from '../../src/config/index.js';
+import { analyzeImage } from '../../src/tools/analyzeImage.js';
+import { countTokens } from '../../src/tools/countTokens.js';
+import { generateText } from '../../src/tools/generateText.js';
+import { listModels } from '../../src/tools/listModels.js';
+import { defineTool, ToolContext, ToolRegistry } from '../../src/tools/registry.js';
+import { ConcurrencyLimiter } from '../../src/utils/concurrency.js';
+import { GeminiAPIError, RateLimitError, ValidationError } from '../../src/utils/errors.js';
+import { logger, runInSession } from '../../src/utils/logger.js';
+import { RateLimiter } from '../../src/utils/rateLimiter.js';
+
+const echo = defineTool({
+  name: 'echo',
+  description: 'Repeat the input',
+  annotations: { title: 'Echo', readOnlyHint: true },
+  inputSchema: z.object({
+    text: z.string().min(1).describe('Text to repeat'),
+    times: z.number().int().min(1).default(1).describe('How often to repeat it')
+  }),
+  help: '**Example:** "Echo hello twice"',
+  handler: ({ text, times }) => ({ content: [{ type: 'text', text: text.repeat(times) }] })
+});
+
+const context = {} as ToolContext;
+
+describe('ToolRegistry', () => {
+  it('should derive the tools/list JSON Schema from the Zod schema', () => {
+    const [tool] = new ToolRegistry([echo]).list();
+
+    expect(tool).toEqual({
+      name: 'echo',
+      description: 'Repeat the input',
+      annotations: { title: 'Echo', readOnlyHint: true },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          text: { type: 'string', minLength: 1, description: 'Text to repeat' },
+          times: {
+            type: 'integer',
+            minimum: 1,
+            default: 1,
+            description: 'How often to repeat it'
+          }
+        },
+        required: ['text'],
+        additionalProperties: true
+      }
+    });
+  });
+
+  it('should validate arguments and apply defaults before calling the handler', async () => {
+    const registry = new ToolRegistry([echo]);
+
+    await expect(registry.call('echo', { text: 'hi' }, context)).resolves.toEqual({
+      content: [{ type: 'text', text: 'hi' }]
+    });
+    await expect(registry.call('echo', { text: '' }, context)).rejects.toThrow(ValidationError);
+  });
+
+  it('should reject unknown tools as invalid params', async () => {
+    await expect(new ToolRegistry([echo]).call('nope', {}, context)).rejects.toMatchObject({
+      code: -32602,
+      message: 'Unknown tool: nope'
+    });
+  });
+
+  it('should validate analyze_image arguments', async () => {
+    await expect(
+      new ToolRegistry([analyzeImage]).call('analyze_image', { prompt: 'What is this?' }, context)
+    ).rejects.toThrow('Either imageUrl or imageBase64 must be provided');
+  });
+
+  it('should generate help from the schemas', () => {
+    const help = new ToolRegistry([echo, generateText]).help();
+
+    expect(help).toContain('## 1. echo\nRepeat the input');
+    expect(help).toContain('- text (string, required): Text to repeat');
+    expect(help).toContain('- times (integer, default: 1): How often to repeat it');
+    expect(help).toContain('**Example:** "Echo hello twice"');
+    expect(help).toContain('- jsonSchema (string): JSON schema as a string');
+  });
+
+  it('should time out slow tools and abort their signal', async () => {
+    let signal: AbortSignal | undefined;
+    const slow = defineTool({
+      name: 'slow',
+      description: 'Never finishes',
+      inputSchema: z.object({}),
+      handler: (_args, context) => {
+        signal = context.signal;
+        return new Promise(() => undefined);
+      }
+    });
+
+    const registry = new ToolRegistry([slow], { timeoutMs: 20 });
+
+    await expect(registry.call('slow', {}, context)).rejects.toMatchObject({
+      name: 'TimeoutError',
+      code: -32003,
+      data: { timeoutMs: 20 }
+    });
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('should retry Gemini calls and report the attempts in the metadata', async () => {
+    const flaky = jest
+      .fn()
+      .mockRejectedValueOnce(new GeminiAPIError('Overloaded', { code: 503 }))
+      .mockResolvedValue('ok');
+    const gemini = defineTool({
+      name: 'gemini',
+      description: 'Calls Gemini',
+      inputSchema: z.object({}),
+      handler: async (_args, context) => {
+        const text = await context.callGemini<string>(flaky);
+        return { content: [{ type: 'text', text }], metadata: { model: 'gemini-2.5-flash' } };
+      }
+    });
+    const registry = new ToolRegistry([gemini], { retry: { baseDelay: 5 } });
+
+    const result = await registry.call('gemini', {}, context);
+
+    expect(result.metadata).toEqual({
+      model: 'gemini-2.5-flash',
+      retry: { attempts: 2, backoffMs: expect.any(Number) }
+    });
+  });
+
+  it('should hold Gemini calls for a model to its concurrency limit and report the wait', async () => {
+    let finish!: () => void;
+    const running = new Promise<void>(resolve => (finish = resolve));
+    const gemini = defineTool({
+      name: 'gemini',
+      description: 'Calls Gemini',
+      inputSchema: z.object({ wait: z.boolean() }),
+      handler: async ({ wait }, context) => {
+        await context.callGemini(() => (wait ? running : Promise.resolve()), 'gemini-2.5-pro');
+        return { content: [{ type: 'text', text: 'done' }] };
+      }
+    });
+    const limiter = new ConcurrencyLimiter({ maxInFlight: 1 });
+    const registry = new ToolRegistry([gemini], { limiter });
+
+    const first = registry.call('gemini', { wait: true }, context);
+    const second = registry.call('gemini', { wait: false }, context);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(limiter.snapshot()['gemini-2.5-pro']).toMatchObject({ inFlight: 1, queued: 1 });
+    finish();
+
+    expect((await first).metadata?.queueWaitMs).toBe(0);
+    expect((await second).metadata?.queueWaitMs).toBeGreaterThan(0);
+  });
+
+  it('should hold the concurrency slot until a streamed response has been read', async () => {
+    let finish!: () => void;
+    const finished = new Promise<void>(resolve => (finish = resolve));
+    const generateContentStream = jest.fn(async () =>
+      (async function* () {
+        yield { text: 'Hello' };
+        await finished;
+        yield { text: ' world', usageMetadata: { totalTokenCount: 12 } };
+      })()
+    );
+    const limiter = new ConcurrencyLimiter({ maxInFlight: 1 });
+    const registry = new ToolRegistry([generateText], { limiter });
+    const streaming = { ...context, genAI: { models: { generateContentStream } } } as any;
+    const args = { prompt: 'Hi', model: 'gemini-2.5-flash', stream: true };
+
+    const first = registry.call('generate_text', args, streaming);
+    const second = registry.call('generate_text', args, streaming);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(generateContentStream).toHaveBeenCalledTimes(1);
+    expect(limiter.snapshot()['gemini-2.5-flash']).toMatchObject({ inFlight: 1, queued: 1 });
+    finish();
+
+    expect((await first).content).toEqual([{ type: 'text', text: 'Hello world' }]);
+    expect((await second).metadata?.queueWaitMs).toBeGreaterThan(0);
+  });
+
+  it('should rate limit tool calls per session and count the tokens of Gemini calls', async () => {
+    const gemini = defineTool({
+      name: 'gemini',
+      description: 'Calls Gemini',
+      inputSchema: z.object({}),
+      handler: async (_args, context) => {
+        await context.callGemini(
+          async () => ({ usageMetadata: { totalTokenCount: 120 } }),
+          'gemini-2.5-flash'
+        );
+        return { content: [{ type: 'text', text: 'done' }] };
+      }
+    });
+    const rateLimiter = new RateLimiter({
+      maxRequests: 1,
+      models: { 'gemini-2.5-flash': { tpm: 1000 } }
+    });
+    const registry = new ToolRegistry([gemini], { rateLimiter });
+    const session = { ...context, sessionId: 'a' };
+
+    await registry.call('gemini', {}, session);
+    await expect(registry.call('gemini', {}, session)).rejects.toBeInstanceOf(RateLimitError);
+    await registry.call('gemini', {}, { ...context, sessionId: 'b' });
+
+    expect(rateLimiter.getUsage()).toMatchObject({ 'gemini-2.5-flash tokens per minute': 240 });
+    rateLimiter.destroy();
+  });
+
+  it('should forward streamed text as log records without a progress token', async () => {
+    const generateContentStream = async () =>
+      (async function* () {
+        yield { text: 'Hello' };
+        yield { text: ' world' };
+      })();
+    const registry = new ToolRegistry([generateText]);
+    const streaming = { ...context, genAI: { models: { generateContentStream } } } as any;
+    const records: unknown[] = [];
+    const removeSink = logger.addSink((record, sessionId) => {
+      if (record.logger === 'generate_text') {
+        records.push([sessionId, record.data.message]);
+      }
+    });
+
+    await runInSession('a', () =>
+      registry.call(
+        'generate_text',
+        { prompt: 'Hi', model: 'gemini-2.5-flash', stream: true },
+        streaming
+      )
+    );
+    removeSink();
+
+    expect(records).toEqual([
+      ['a', 'Hello'],
+      ['a', ' world']
+    ]);
+  });
+
+  it('should count the tokens of streamed responses toward the model quota', async () => {
+    const generateContentStream = async () =>
+      (async function* () {
+        yield { text: 'Hello' };
+        yield { text: ' world', usageMetadata: { totalTokenCount: 30 } };
+      })();
+    const rateLimiter = new RateLimiter({ models: { 'gemini-2.5-flash': { tpm: 1000 } } });
+    const registry = new ToolRegistry([generateText], { rateLimiter });
+    const streaming = { ...context, genAI: { models: { generateContentStream } } } as any;
+
+    await registry.call(
+      'generate_text',
+      { prompt: 'Hi', model: 'gemini-2.5-flash', stream: true },
+      streaming
+    );
+
+    expect(rateLimiter.getUsage()).toMatchObject({ 'gemini-2.5-flash tokens per minute': 30 });
+    rateLimiter.destroy();
+  });
+
+  it('should prefer configured per-tool timeouts to the registry default', () => {
+    const registry = new ToolRegistry([echo, countTokens], {
+      timeoutMs: 30000,
+      toolTimeouts: { count_tokens: 5000 }
+    });
+
+    expect(registry.timeoutFor(echo)).toBe(30000);
+    expect(registry.timeoutFor(countTokens)).toBe(5000);
+    expect(registry.timeoutFor(analyzeImage)).toBe(30000);
+  });
+
+  it('should apply REQUEST_TIMEOUT to generate_text', () => {
+    const originalEnv = process.env;
+    process.env = { ...originalEnv, REQUEST_TIMEOUT: '45000' };
+    const { requestTimeout, toolTimeouts } = loadConfig();
+    process.env = originalEnv;
+
+    const registry = new ToolRegistry([generateText], { timeoutMs: requestTimeout, toolTimeouts });
+
+    expect(registry.timeoutFor(generateText)).toBe(45000);
+  });
+
+  it('should register and unregister tools', () => {
+    const registry = new ToolRegistry();
+    registry.register(echo);
+
+    expect(registry.names()).toEqual(['echo']);
+    expect(registry.unregister('echo')).toBe(true);
+    expect(registry.has('echo')).toBe(false);
+  });
+});
+
+describe('built-in tool annotations', () => {
+  it('should mark local lookups as read-only and closed-world', () => {
+    for (const tool of [listModels, countTokens]) {
+      expect(tool.annotations).toMatchObject({
+        readOnlyHint: true,
+        idempotentHint: true,
+        openWorldHint: false
+      });
+    }
+  });
+
+  it('should mark generate_text as reaching the open web', () => {
+    expect(generateText.annotations).toMatchObject({
+      readOnlyHint: false,
+      openWorldHint: true
+    });
+  });
+
+  it('should mark analyze_image as open-world', () => {
+    expect(analyzeImage.annotations).toMatchObject({
+      readOnlyHint: true,
+      openWorldHint: true
+    });
+  });
+});
@@ -1,4 +1,6 @@
-import { Validator, ToolSchemas, CommonSchemas } from '../../src/utils/validation.js';
+import { Validator, CommonSchemas } from '../../src/utils/validation.js';
+import { analyzeImage } from '../../src/tools/analyzeImage.js';
+import { generateText } from '../../src/tools/generateText.js';
 import { ValidationError } from '../../src/utils/errors.js';
 
 describe('Validation', () => {
@@ -47,11 +49,7 @@ describe('Validation', () => {
 
     describe('jsonSchema', () => {
       it('should accept valid JSON strings', () => {
-        const validSchemas = [
-          '{"type": "object"}',
-          '{"type": "string", "enum": ["a", "b"]}',
-          '[]'
-        ];
+        const validSchemas = ['{"type": "object"}', '{"type": "string", "enum": ["a", "b"]}', '[]'];
 
         validSchemas.forEach(schema => {
           expect(() => CommonSchemas.jsonSchema.parse(schema)).not.toThrow();
@@ -59,11 +57,7 @@ describe('Validation', () => {
       });
 
       it('should reject invalid JSON strings', () => {
-        const invalidSchemas = [
-          '{invalid json}',
-          'not json at all',
-          '{"unclosed": '
-        ];
+        const invalidSchemas = ['{invalid json}', 'not json at all', '{"unclosed": '];
 
         invalidSchemas.forEach(schema => {
           expect(() => CommonSchemas.jsonSchema.parse(schema)).toThrow();
@@ -72,7 +66,7 @@ describe('Validation', () => {
     });
   });
 
-  describe('ToolSchemas', () => {
+  describe('Tool input schemas', () => {
     describe('generateText', () => {
       it('should accept valid parameters', () => {
         const validParams = {
@@ -82,7 +76,7 @@ describe('Validation', () => {
           maxTokens: 1000
         };
 
-        expect(() => ToolSchemas.generateText.parse(validParams)).not.toThrow();
+        expect(() => generateText.inputSchema.parse(validParams)).not.toThrow();
       });
 
       it('should require prompt', () => {
@@ -90,7 +84,7 @@ describe('Validation', () => {
           model: 'gemini-2.5-flash'
         };
 
-        expect(() => ToolSchemas.generateText.parse(invalidParams)).toThrow();
+        expect(() => generateText.inputSchema.parse(invalidParams)).toThrow();
       });
 
       it('should reject empty prompt', () => {
@@ -98,7 +92,7 @@ describe('Validation', () => {
           prompt: ''
         };
 
-        expect(() => ToolSchemas.generateText.parse(invalidParams)).toThrow();
+        expect(() => generateText.inputSchema.parse(invalidParams)).toThrow();
       });
     });
 
@@ -109,16 +103,36 @@ describe('Validation', () => {
           imageUrl: 'https://example.com/image.jpg'
         };
 
-        expect(() => ToolSchemas.analyzeImage.parse(validParams)).not.toThrow();
+        expect(() => analyzeImage.inputSchema.parse(validParams)).not.toThrow();
       });
 
       it('should accept valid parameters with imageBase64', () => {
         const validParams = {
           prompt: 'What is in this image?',
-          imageBase64: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg=='
+          imageBase64:
+            'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg=='
+        };
+
+        expect(() => analyzeImage.inputSchema.parse(validParams)).not.toThrow();
+      });
+
+      it('should accept raw base64 image data', () => {
+        const params = analyzeImage.inputSchema.parse({
+          prompt: 'What is in this image?',
+          imageBase64:
+            'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg=='
+        });
+
+        expect(params.model).toBe('gemini-2.5-flash');
+      });
+
+      it('should reject data URIs of unsupported types', () => {
+        const invalidParams = {
+          prompt: 'What is in this image?',
+          imageBase64: 'data:text/plain;base64,aGVsbG8='
         };
 
-        expect(() => ToolSchemas.analyzeImage.parse(validParams)).not.toThrow();
+        expect(() => analyzeImage.inputSchema.parse(invalidParams)).toThrow();
       });
 
       it('should require either imageUrl or imageBase64', () => {
@@ -126,7 +140,7 @@ describe('Validation', () => {
           prompt: 'What is in this image?'
         };
 
-        expect(() => ToolSchemas.analyzeImage.parse(invalidParams)).toThrow();
+        expect(() => analyzeImage.inputSchema.parse(invalidParams)).toThrow();
       });
 
       it('should reject invalid imageUrl', () => {
@@ -135,7 +149,7 @@ describe('Validation', () => {
           imageUrl: 'not-a-url'
         };
 
-        expect(() => ToolSchemas.analyzeImage.parse(invalidParams)).toThrow();
+        expect(() => analyzeImage.inputSchema.parse(invalidParams)).toThrow();
       });
     });
   });
@@ -148,7 +162,7 @@ describe('Validation', () => {
           temperature: 0.7
         };
 
-        const result = Validator.validateToolParams(ToolSchemas.generateText, params);
+        const result = Validator.validateToolParams(generateText.inputSchema, params);
 
         expect(result.prompt).toBe('Test prompt');
         expect(result.temperature).toBe(0.7);
@@ -161,7 +175,7 @@ describe('Validation', () => {
         };
 
         expect(() => {
-          Validator.validateToolParams(ToolSchemas.generateText, params);
+          Validator.validateToolParams(generateText.inputSchema, params);
         }).toThrow(ValidationError);
       });
     });